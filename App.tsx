@@ -1,24 +1,86 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { AudioEngine } from './services/audioEngine';
+import { createHistoryStore } from './services/historyStore';
 import Visualizer from './components/Visualizer';
-import { ThemeConfig, DEFAULT_THEME, PlaybackEvent, InstrumentType } from './types';
-import { Music, Sparkles } from 'lucide-react';
+import KochTrainer from './components/KochTrainer';
+import KeyInput from './components/KeyInput';
+import ListenInput from './components/ListenInput';
+import AlphabetSelect from './components/AlphabetSelect';
+import ThemeEditor from './components/ThemeEditor';
+import HistoryPanel from './components/HistoryPanel';
+import ReadAlongPanel from './components/ReadAlongPanel';
+import MixerPanel from './components/MixerPanel';
+import { ThemeConfig, DEFAULT_THEME, PlaybackEvent, InstrumentType, MorseTimingRatios, LoopOptions, PresetTheme, CustomPreset, HistoryEntry, ThemeEffects, MixerSettings, AccompanimentStyle, PitchMapping, GrooveSettings } from './types';
+import { MorseAlphabet, findQCodes, isMorseInput, morseToText, textToMorse } from './utils/morseMapping';
+import { audioBufferToWav } from './utils/wavEncoder';
+import { timelineToMidi } from './utils/midiWriter';
+import { buildAccompaniment, buildChordSections } from './utils/accompaniment';
+import { describeWpm, resolveTiming } from './utils/morseTiming';
+import { downloadBlob } from './utils/download';
+import { buildShareUrl, decodeShareState, ShareState } from './utils/shareLink';
+import { recordPlay } from './utils/history';
+import { getVoice } from './utils/voices';
+import { DEFAULT_GROOVE, GROOVE_BPM_RANGE, GROOVE_SUBDIVISIONS, GROOVE_SWING_RANGE } from './utils/groove';
+import { DEFAULT_MIXER, DEFAULT_MIXER_KEY, loadPresetMixers, savePresetMixers } from './utils/mixer';
+import { createPresetId, exportPresetsJson, loadCustomPresets, mergePresets, parsePresetsJson, saveCustomPresets } from './utils/customPresets';
+import { Music, Sparkles, Download, FileMusic, Pause, Play, Repeat, Copy, Link, Drum, X } from 'lucide-react';
 
 const App: React.FC = () => {
   const [inputText, setInputText] = useState('');
+  const [appMode, setAppMode] = useState<'play' | 'practice' | 'key' | 'listen'>('play');
   const [isPlaying, setIsPlaying] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [theme, setTheme] = useState<ThemeConfig>(DEFAULT_THEME);
   const [events, setEvents] = useState<PlaybackEvent[]>([]);
+  const [timelineText, setTimelineText] = useState(''); // events를 만든 원문 (읽기 패널의 sourceIndex 기준)
+  const [liveEvents, setLiveEvents] = useState<PlaybackEvent[]>([]); // 키 입력으로 보낸 / 수신해 해독한 요소
+  const isLiveMode = appMode === 'key' || appMode === 'listen';
   const [isAutoTheme, setIsAutoTheme] = useState(true);
   const [selectedMood, setSelectedMood] = useState<string>('');
   const [selectedWaveform, setSelectedWaveform] = useState<OscillatorType | ''>('');
   const [selectedBaseFreq, setSelectedBaseFreq] = useState<number | ''>('');
   const [selectedTempo, setSelectedTempo] = useState<number | ''>('');
-  const [selectedScale, setSelectedScale] = useState<string>('');
+  const [selectedScale, setSelectedScale] = useState<number[] | ''>(''); // 기준음에서의 반음 오프셋
+  const [selectedPrimaryColor, setSelectedPrimaryColor] = useState<string>('');
+  const [selectedSecondaryColor, setSelectedSecondaryColor] = useState<string>('');
+  const [selectedEffects, setSelectedEffects] = useState<ThemeEffects | undefined>(undefined);
+  const [selectedAccompaniment, setSelectedAccompaniment] = useState<AccompanimentStyle | undefined>(undefined);
+  const [selectedPitchMapping, setSelectedPitchMapping] = useState<PitchMapping | undefined>(undefined);
+  const [selectedSidetoneRiseTime, setSelectedSidetoneRiseTime] = useState<number | undefined>(undefined);
   const [selectedPresetId, setSelectedPresetId] = useState<string>('');
   const [selectedInstrument, setSelectedInstrument] = useState<InstrumentType>('piano');
+  const [storedPresets] = useState(loadCustomPresets); // 저장소에서 읽지 못했으면 null
+  const [customPresets, setCustomPresets] = useState<CustomPreset[]>(storedPresets ?? []);
+  const [presetError, setPresetError] = useState<string | null>( // 가져오기·저장소 실패 메시지
+    storedPresets ? null : 'Saved presets could not be read from browser storage'
+  );
+  const [storedMixers] = useState(loadPresetMixers); // 저장소에서 읽지 못했으면 null
+  const [presetMixers, setPresetMixers] = useState<Record<string, MixerSettings>>(storedMixers ?? {}); // 프리셋 id → 믹서 값
+  const [mixerError, setMixerError] = useState<string | null>(
+    storedMixers ? null : 'Saved mixer levels could not be read from browser storage'
+  );
+  const [history, setHistory] = useState<HistoryEntry[]>([]); // 재생한 메시지 (최근 순)
+  const [historyError, setHistoryError] = useState<string | null>(null); // 기록 저장소 실패 메시지
+  const [morseAlphabet, setMorseAlphabet] = useState<MorseAlphabet>('latin'); // 붙여넣은 모스 부호를 읽을 문자 체계
+  const [isWabunMorse, setIsWabunMorse] = useState(false); // <DO> 없이도 和文(가나)으로 해독
+  const [isStrictHangul, setIsStrictHangul] = useState(true); // 부호 미리보기에 음절 경계 표시 (붙여넣으면 그대로 복원)
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null); // WAV 렌더링 실패 메시지
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [uncopied, setUncopied] = useState<{ label: string; text: string } | null>(null); // 클립보드가 막혔을 때 대신 보여 줄 내용
+  // 타이밍 모델: WPM이 비어 있으면 스타일 템포(tempoMultiplier)를 따름
+  const [timingRatios, setTimingRatios] = useState<MorseTimingRatios>('musical');
+  const [timingWpm, setTimingWpm] = useState<number | ''>('');
+  const [farnsworthWpm, setFarnsworthWpm] = useState<number | ''>('');
+  const [groove, setGroove] = useState<GrooveSettings | null>(null); // null = 격자 없이 모스 길이 그대로
+  // 반복 재생: 횟수(Infinity = 무한)와 회차 사이 간격(초)
+  const [repeatCount, setRepeatCount] = useState<number>(1);
+  const [loopGap, setLoopGap] = useState<number>(1.0);
 
   const audioEngineRef = useRef<AudioEngine>(new AudioEngine());
+  const historyStoreRef = useRef(createHistoryStore());
+  const historyRef = useRef<HistoryEntry[]>([]); // 재생을 기다린 뒤에도 최신 기록으로 계산하도록 state와 같이 갱신
+  const historyLoadRef = useRef<Promise<void>>(Promise.resolve()); // 저장된 기록을 다 읽을 때까지 쓰기를 미룸
   
   // These refs are for the Visualizer to access raw audio timing without re-renders
   const audioCtxRef = useRef<AudioContext | null>(null);
@@ -28,13 +90,13 @@ const App: React.FC = () => {
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const inputValueRef = useRef(''); // 한글 IME + Strict Mode 대응: ref에만 보관 후 마운트 시 복원
 
-  // 스타일 5개만 — 악기·템포·스케일·주파수 차이 확실히
+  // 스타일 5개만 — 악기·템포·스케일·주파수 차이 확실히, 이펙트로 공간감도 다르게 (Serene은 건조하게), 반주 스타일도 각각
   const stylePresets = [
-    { id: 'dreamy', label: 'Dreamy Night', mood: 'Dreamy', waveform: 'triangle' as OscillatorType, scale: 'dreamy', tempo: 0.88, baseFreq: 418, instrument: 'marimba' as InstrumentType, unselected: 'bg-violet-500/25 border-violet-400 text-violet-200', selected: 'bg-violet-500/60 border-violet-300 ring-2 ring-violet-400 ring-offset-2 ring-offset-slate-900 text-white shadow-[0_0_16px_rgba(139,92,246,0.5)]' },
-    { id: 'melancholic', label: 'Soft Melancholy', mood: 'Melancholic', waveform: 'sine' as OscillatorType, scale: 'minor', tempo: 0.72, baseFreq: 392, instrument: 'violin' as InstrumentType, unselected: 'bg-slate-500/25 border-slate-400 text-slate-200', selected: 'bg-slate-500/60 border-slate-300 ring-2 ring-slate-300 ring-offset-2 ring-offset-slate-900 text-white shadow-[0_0_16px_rgba(100,116,139,0.5)]' },
-    { id: 'serene', label: 'Serene Morning', mood: 'Serene', waveform: 'sine' as OscillatorType, scale: 'serene', tempo: 0.98, baseFreq: 440, instrument: 'piano' as InstrumentType, unselected: 'bg-amber-500/25 border-amber-400 text-amber-200', selected: 'bg-amber-500/60 border-amber-300 ring-2 ring-amber-400 ring-offset-2 ring-offset-slate-900 text-white shadow-[0_0_16px_rgba(245,158,11,0.5)]' },
-    { id: 'gentle', label: 'Gentle Rain', mood: 'Gentle', waveform: 'triangle' as OscillatorType, scale: 'gentle', tempo: 0.78, baseFreq: 370, instrument: 'sine' as InstrumentType, unselected: 'bg-cyan-500/25 border-cyan-400 text-cyan-200', selected: 'bg-cyan-500/60 border-cyan-300 ring-2 ring-cyan-400 ring-offset-2 ring-offset-slate-900 text-white shadow-[0_0_16px_rgba(34,211,238,0.5)]' },
-    { id: 'tranquil', label: 'Tranquil Forest', mood: 'Tranquil', waveform: 'sine' as OscillatorType, scale: 'tranquil', tempo: 0.82, baseFreq: 448, instrument: 'chime' as InstrumentType, unselected: 'bg-emerald-500/25 border-emerald-400 text-emerald-200', selected: 'bg-emerald-500/60 border-emerald-300 ring-2 ring-emerald-400 ring-offset-2 ring-offset-slate-900 text-white shadow-[0_0_16px_rgba(52,211,153,0.5)]' },
+    { id: 'dreamy', label: 'Dreamy Night', mood: 'Dreamy', waveform: 'triangle' as OscillatorType, scale: 'dreamy', tempo: 0.88, baseFreq: 418, instrument: 'marimba' as InstrumentType, effects: { reverb: { mix: 0.55, decay: 4.5 }, delay: { mix: 0.2, feedback: 0.4, units: 6 }, filter: { cutoff: 3200, Q: 0.7 }, pan: { width: 0.6 } } as ThemeEffects, accompaniment: 'arpeggio' as AccompanimentStyle, unselected: 'bg-violet-500/25 border-violet-400 text-violet-200', selected: 'bg-violet-500/60 border-violet-300 ring-2 ring-violet-400 ring-offset-2 ring-offset-slate-900 text-white shadow-[0_0_16px_rgba(139,92,246,0.5)]' },
+    { id: 'melancholic', label: 'Soft Melancholy', mood: 'Melancholic', waveform: 'sine' as OscillatorType, scale: 'minor', tempo: 0.72, baseFreq: 392, instrument: 'violin' as InstrumentType, effects: { reverb: { mix: 0.35, decay: 2.5 }, filter: { cutoff: 2200, Q: 0.5 }, pan: { width: 0.3 } } as ThemeEffects, accompaniment: 'pad' as AccompanimentStyle, unselected: 'bg-slate-500/25 border-slate-400 text-slate-200', selected: 'bg-slate-500/60 border-slate-300 ring-2 ring-slate-300 ring-offset-2 ring-offset-slate-900 text-white shadow-[0_0_16px_rgba(100,116,139,0.5)]' },
+    { id: 'serene', label: 'Serene Morning', mood: 'Serene', waveform: 'sine' as OscillatorType, scale: 'serene', tempo: 0.98, baseFreq: 440, instrument: 'piano' as InstrumentType, effects: {} as ThemeEffects, accompaniment: 'bass-chords' as AccompanimentStyle, unselected: 'bg-amber-500/25 border-amber-400 text-amber-200', selected: 'bg-amber-500/60 border-amber-300 ring-2 ring-amber-400 ring-offset-2 ring-offset-slate-900 text-white shadow-[0_0_16px_rgba(245,158,11,0.5)]' },
+    { id: 'gentle', label: 'Gentle Rain', mood: 'Gentle', waveform: 'triangle' as OscillatorType, scale: 'gentle', tempo: 0.78, baseFreq: 370, instrument: 'sine' as InstrumentType, effects: { reverb: { mix: 0.25, decay: 1.8 }, delay: { mix: 0.25, feedback: 0.45, units: 3 }, filter: { cutoff: 4500, Q: 0.7 }, pan: { width: 0.5 } } as ThemeEffects, accompaniment: 'arpeggio' as AccompanimentStyle, unselected: 'bg-cyan-500/25 border-cyan-400 text-cyan-200', selected: 'bg-cyan-500/60 border-cyan-300 ring-2 ring-cyan-400 ring-offset-2 ring-offset-slate-900 text-white shadow-[0_0_16px_rgba(34,211,238,0.5)]' },
+    { id: 'tranquil', label: 'Tranquil Forest', mood: 'Tranquil', waveform: 'sine' as OscillatorType, scale: 'tranquil', tempo: 0.82, baseFreq: 448, instrument: 'chime' as InstrumentType, effects: { reverb: { mix: 0.4, decay: 3 }, delay: { mix: 0.15, feedback: 0.3, units: 7 }, pan: { width: 0.8 } } as ThemeEffects, accompaniment: 'pad' as AccompanimentStyle, unselected: 'bg-emerald-500/25 border-emerald-400 text-emerald-200', selected: 'bg-emerald-500/60 border-emerald-300 ring-2 ring-emerald-400 ring-offset-2 ring-offset-slate-900 text-white shadow-[0_0_16px_rgba(52,211,153,0.5)]' },
   ] as const;
 
   // 미리 정의된 스케일 프리셋
@@ -62,6 +124,7 @@ const App: React.FC = () => {
     let tempoMultiplier = 1.0;
     let baseFrequency = 440;
     let scale = scalePresets['major'];
+    let accompaniment: AccompanimentStyle | undefined; // 미지정 → 아르페지오
 
     const len = text.length;
     if (/[!]/.test(text) || /(love|사랑|행복|happy|excited)/i.test(text)) {
@@ -72,6 +135,7 @@ const App: React.FC = () => {
       tempoMultiplier = 1.4;
       baseFrequency = 480;
       scale = scalePresets['major'];
+      accompaniment = 'bass-chords';
     } else if (/(밤|night|별|star|dream|꿈)/i.test(text)) {
       mood = 'Dreamy';
       primaryColor = '#6366f1';
@@ -96,6 +160,7 @@ const App: React.FC = () => {
       tempoMultiplier = 1.3;
       baseFrequency = 460;
       scale = scalePresets['major'];
+      accompaniment = 'bass-chords';
     }
 
     return {
@@ -108,6 +173,7 @@ const App: React.FC = () => {
       baseFrequency,
       scale,
       instrument: base.instrument ?? 'piano',
+      accompaniment,
     };
   };
 
@@ -125,14 +191,17 @@ const App: React.FC = () => {
         ? selectedTempo
         : base.tempoMultiplier;
 
-    let scale = base.scale;
-    if (selectedScale && scalePresets[selectedScale]) {
-      scale = scalePresets[selectedScale];
-    }
+    const scale = selectedScale !== '' && selectedScale.length > 0 ? selectedScale : base.scale;
 
     return {
       ...base,
       mood,
+      primaryColor: selectedPrimaryColor || base.primaryColor,
+      secondaryColor: selectedSecondaryColor || base.secondaryColor,
+      effects: selectedEffects,
+      accompaniment: selectedAccompaniment,
+      pitchMapping: selectedPitchMapping,
+      sidetoneRiseTime: selectedSidetoneRiseTime,
       waveform,
       baseFrequency,
       tempoMultiplier,
@@ -141,6 +210,42 @@ const App: React.FC = () => {
     };
   };
 
+  // 모스 부호를 붙여넣은 경우 텍스트로 풀어서 재생
+  const resolveInputText = (raw: string): string =>
+    isMorseInput(raw) ? morseToText(raw, { alphabet: morseAlphabet, wabun: isWabunMorse }).text : raw;
+
+  // 재생/내보내기 직전: 입력창의 최신 값을 읽는다 (비제어 입력이라 state가 늦을 수 있음)
+  const readInputText = (): string =>
+    resolveInputText((inputRef.current?.value ?? inputValueRef.current ?? inputText).trim()).trim();
+
+  // 입력 텍스트의 모스 부호 미리보기 + 모스 표에 없어 재생되지 않는 문자 (입력창 아래 경고)
+  const morsePreview = inputText.trim() && !isMorseInput(inputText)
+    ? textToMorse(inputText, { strictHangul: isStrictHangul })
+    : null;
+  const skippedChars = morsePreview?.skipped ?? [];
+  const hasHangul = /[가-힣]/.test(inputText);
+
+  const morseDecodePreview = isMorseInput(inputText)
+    ? morseToText(inputText, { alphabet: morseAlphabet, wabun: isWabunMorse })
+    : null;
+
+  // 자동/수동 테마에 타이밍·그루브 설정을 덧붙임 (기본값이면 기존 템포 기반 타이밍 유지)
+  const buildTheme = (text: string): ThemeConfig => {
+    const base = isAutoTheme ? buildAutoTheme(text) : buildManualTheme();
+    const theme = groove ? { ...base, groove } : base;
+    if (timingRatios === 'musical' && timingWpm === '' && farnsworthWpm === '') return theme;
+
+    const wpm = timingWpm === '' ? resolveTiming(theme).wpm : timingWpm;
+    return {
+      ...theme,
+      timing: {
+        wpm,
+        farnsworthWpm: farnsworthWpm !== '' && farnsworthWpm < wpm ? farnsworthWpm : undefined,
+        ratios: timingRatios,
+      },
+    };
+  };
+
   // 비제어 입력: DOM/ref 값만 갱신, state는 blur/compositionEnd에서만 (프리뷰용)
   const syncInputToState = () => {
     const v = inputRef.current?.value ?? '';
@@ -156,38 +261,208 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const applyStylePreset = (preset: (typeof stylePresets)[number]) => {
+    setSelectedMood(preset.mood);
+    setSelectedWaveform(preset.waveform);
+    setSelectedScale(scalePresets[preset.scale]);
+    setSelectedTempo(preset.tempo);
+    setSelectedBaseFreq(preset.baseFreq);
+    setSelectedInstrument(preset.instrument);
+    setSelectedPrimaryColor('');
+    setSelectedSecondaryColor('');
+    setSelectedEffects(preset.effects);
+    setSelectedAccompaniment(preset.accompaniment);
+    setSelectedPitchMapping(undefined);
+    setSelectedSidetoneRiseTime(undefined);
+    setIsAutoTheme(false);
+    setSelectedPresetId(preset.id);
+  };
+
+  // 편집기·사용자 프리셋·공유 링크의 테마 → 수동 선택값
+  const applyPresetTheme = (preset: PresetTheme) => {
+    setSelectedMood(preset.mood);
+    setSelectedWaveform(preset.waveform);
+    setSelectedScale(preset.scale);
+    setSelectedTempo(preset.tempoMultiplier);
+    setSelectedBaseFreq(preset.baseFrequency);
+    setSelectedInstrument(preset.instrument);
+    setSelectedPrimaryColor(preset.primaryColor);
+    setSelectedSecondaryColor(preset.secondaryColor);
+    setSelectedEffects(preset.effects);
+    setSelectedAccompaniment(preset.accompaniment);
+    setSelectedPitchMapping(preset.pitchMapping);
+    setSelectedSidetoneRiseTime(preset.sidetoneRiseTime);
+    setIsAutoTheme(false);
+  };
+
+  // 현재 테마(자동이면 자동으로 고른 값)에서 편집기가 다루는 값만
+  const toPresetTheme = (config: ThemeConfig): PresetTheme => ({
+    mood: config.mood,
+    primaryColor: config.primaryColor,
+    secondaryColor: config.secondaryColor,
+    waveform: config.waveform,
+    baseFrequency: config.baseFrequency,
+    tempoMultiplier: config.tempoMultiplier,
+    scale: config.scale,
+    instrument: config.instrument ?? 'sine',
+    effects: config.effects,
+    accompaniment: config.accompaniment,
+    pitchMapping: config.pitchMapping,
+    sidetoneRiseTime: config.sidetoneRiseTime,
+  });
+
+  // 편집기에서 값 하나를 바꾸면 나머지는 지금 들리는 테마 그대로 수동 테마가 됨
+  const handleThemeEdit = (patch: Partial<PresetTheme>) => {
+    applyPresetTheme({ ...toPresetTheme(theme), ...patch });
+    setSelectedPresetId('');
+  };
+
+  const updateCustomPresets = (next: CustomPreset[]) => {
+    setCustomPresets(next);
+    setPresetError(saveCustomPresets(next) ? null : 'Presets could not be saved — browser storage is full or blocked');
+  };
+
+  const handleSavePreset = (label: string) => {
+    const preset: CustomPreset = { id: createPresetId(), label, theme: toPresetTheme(theme) };
+    updateCustomPresets([...customPresets, preset]);
+    setSelectedPresetId(preset.id);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    updateCustomPresets(customPresets.filter(p => p.id !== id));
+    if (selectedPresetId === id) setSelectedPresetId('');
+    if (presetMixers[id]) {
+      const { [id]: _, ...rest } = presetMixers;
+      updatePresetMixers(rest);
+    }
+  };
+
+  // 믹서 값은 선택한 프리셋마다 (프리셋이 없으면 기본 키)
+  const mixerKey = selectedPresetId || DEFAULT_MIXER_KEY;
+  const mixer = presetMixers[mixerKey] ?? DEFAULT_MIXER;
+  const mixerPresetLabel =
+    [...stylePresets, ...customPresets].find(p => p.id === selectedPresetId)?.label ?? 'Default';
+
+  const updatePresetMixers = (next: Record<string, MixerSettings>) => {
+    setPresetMixers(next);
+    setMixerError(savePresetMixers(next) ? null : 'Mixer levels could not be saved — browser storage is full or blocked');
+  };
+
+  const handleMixerChange = (next: MixerSettings) => {
+    updatePresetMixers({ ...presetMixers, [mixerKey]: next });
+  };
+
+  // 프리셋을 바꾸거나 믹서를 움직이면 재생 중에도 바로 반영
+  useEffect(() => {
+    audioEngineRef.current.setMixer(mixer);
+  }, [mixer]);
+
+  const handleExportPresets = () => {
+    downloadBlob(new Blob([exportPresetsJson(customPresets)], { type: 'application/json' }), 'morse-melody-presets.json');
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const incoming = parsePresetsJson(await file.text(), stylePresets.map(p => p.id));
+      updateCustomPresets(mergePresets(customPresets, incoming));
+    } catch (err) {
+      setPresetError(err instanceof Error ? `Import failed: ${err.message}` : 'Import failed');
+    }
+  };
+
+  // 공유 링크(#v=1&t=...)로 열었으면 텍스트·프리셋·테마 복원
+  useEffect(() => {
+    const shared = decodeShareState(window.location.hash);
+    if (!shared) return;
+
+    inputValueRef.current = shared.text;
+    if (inputRef.current) inputRef.current.value = shared.text;
+    setInputText(shared.text);
+
+    const preset = stylePresets.find(p => p.id === shared.presetId);
+    if (shared.theme) {
+      applyPresetTheme(shared.theme);
+      setSelectedPresetId(preset ? preset.id : '');
+    } else if (preset) {
+      applyStylePreset(preset);
+    }
+  }, []);
+
+  // 클립보드로 복사. 권한 거부·비보안 컨텍스트면 직접 복사하도록 내용을 보여 줌
+  const copyText = async (label: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setUncopied(null);
+      return true;
+    } catch (_) {
+      setUncopied({ label, text });
+      return false;
+    }
+  };
+
+  // 현재 텍스트와 (수동이면) 테마를 담은 링크를 클립보드로
+  const handleCopyShareLink = async () => {
+    const text = inputRef.current?.value ?? inputValueRef.current ?? inputText;
+    if (!text.trim()) return;
+
+    const state: ShareState = { text, presetId: selectedPresetId || undefined };
+    if (!isAutoTheme) state.theme = toPresetTheme(buildManualTheme());
+    const url = buildShareUrl(state);
+    window.history.replaceState(null, '', url);
+    if (await copyText('link', url)) {
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 1500);
+    }
+  };
+
   // Initialize events when text changes (preview mode)
   useEffect(() => {
-    const previewText = inputText || 'HELLO';
-    const effectiveTheme = isAutoTheme ? buildAutoTheme(previewText) : buildManualTheme();
+    // 재생(readInputText)과 같은 텍스트로 만들어야 미리보기에서 누른 위치가 재생 타임라인과 맞음
+    const previewText = resolveInputText(inputText.trim()).trim() || 'HELLO';
+    const effectiveTheme = buildTheme(previewText);
     setTheme(effectiveTheme);
     const timeline = audioEngineRef.current.generateTimeline(previewText, effectiveTheme);
     setEvents(timeline);
+    setTimelineText(previewText);
     if (timeline.length > 0) {
       const last = timeline[timeline.length - 1];
       totalDurationRef.current = last.startTime + last.duration;
     } else {
       totalDurationRef.current = 0;
     }
-  }, [inputText, isAutoTheme, selectedMood, selectedWaveform, selectedBaseFreq, selectedTempo, selectedScale, selectedInstrument]);
+  }, [inputText, morseAlphabet, isWabunMorse, isAutoTheme, selectedMood, selectedWaveform, selectedBaseFreq, selectedTempo, selectedScale, selectedInstrument, selectedPrimaryColor, selectedSecondaryColor, selectedEffects, selectedAccompaniment, selectedPitchMapping, selectedSidetoneRiseTime, timingRatios, timingWpm, farnsworthWpm, groove]);
 
-  const handlePlay = async () => {
+  // offset: 타임라인의 몇 초 지점부터 재생할지 (비주얼라이저 클릭 등)
+  const handlePlay = async (offset: number = 0) => {
     if (isPlaying) {
       audioEngineRef.current.stop();
       setIsPlaying(false);
+      setIsPaused(false);
       return;
     }
 
-    const text = (inputRef.current?.value ?? inputValueRef.current ?? inputText).trim();
+    const text = readInputText();
     if (!text) return;
 
-    // 1. 테마 결정 (자동 / 수동)
-    const currentTheme = isAutoTheme ? buildAutoTheme(text) : buildManualTheme();
+    const currentTheme = buildTheme(text);
+    const duration = await startPlayback(text, offset, { repeatCount, gap: loopGap }, currentTheme);
+    addToHistory(text, currentTheme, duration);
+  };
+
+  // 1회차 타임라인 길이(초)를 돌려준다
+  const startPlayback = async (
+    text: string,
+    offset: number,
+    loop: LoopOptions,
+    currentTheme: ThemeConfig = buildTheme(text)
+  ): Promise<number> => {
+    // 1. 테마 결정 (자동 / 수동, 기록에서 다시 재생하면 그때의 테마)
     setTheme(currentTheme);
 
     // 2. Generate Audio Timeline
     const timeline = audioEngineRef.current.generateTimeline(text, currentTheme);
     setEvents(timeline);
+    setTimelineText(text);
     if (timeline.length > 0) {
       const last = timeline[timeline.length - 1];
       totalDurationRef.current = last.startTime + last.duration;
@@ -197,20 +472,112 @@ const App: React.FC = () => {
 
     // 3. Play
     setIsPlaying(true);
-    
-    // Hack: We need to capture the audioContext from the engine for the visualizer
-    // We start playing, then grab the context time.
-    audioEngineRef.current.play(currentTheme, () => {
+    setIsPaused(false);
+
+    await audioEngineRef.current.play(currentTheme, () => {
       setIsPlaying(false);
-    });
-    
-    // Allow engine to init context first
-    setTimeout(() => {
-        // @ts-ignore - Accessing private property for visualizer sync hack
-        const ctx = (audioEngineRef.current as any).audioCtx; 
-        audioCtxRef.current = ctx;
-        startTimeRef.current = ctx ? ctx.currentTime : 0;
-    }, 50);
+      setIsPaused(false);
+    }, offset, loop);
+
+    // 비주얼라이저·진행도는 엔진의 컨텍스트와 재생 기준 시각(타임라인 0초)을 따라감
+    audioCtxRef.current = audioEngineRef.current.getAudioContext();
+    startTimeRef.current = audioEngineRef.current.getPlaybackOrigin();
+    return totalDurationRef.current;
+  };
+
+  const updateHistory = (entries: HistoryEntry[]) => {
+    historyRef.current = entries;
+    setHistory(entries);
+  };
+
+  // 기록 저장은 화면 갱신과 별개로 — 실패해도 재생에는 영향 없음
+  const persistHistory = (task: Promise<void>) =>
+    task.catch(() => setHistoryError('History could not be saved — browser storage is unavailable'));
+
+  useEffect(() => {
+    historyLoadRef.current = historyStoreRef.current
+      .list()
+      .then(updateHistory)
+      .catch(() => setHistoryError('Saved history could not be loaded'));
+  }, []);
+
+  // 저장된 기록을 다 읽은 뒤에 반영 — 먼저 반영하면 읽어 온 목록이 덮어쓰고, 중복 제거·개수 제한도 빈 목록 기준이 됨
+  const addToHistory = async (text: string, playedTheme: ThemeConfig, duration: number) => {
+    await historyLoadRef.current;
+    const { entries, upsert, removed } = recordPlay(historyRef.current, text, playedTheme, duration);
+    updateHistory(entries);
+    persistHistory(historyStoreRef.current.put(upsert));
+    removed.forEach(entry => persistHistory(historyStoreRef.current.remove(entry.id)));
+  };
+
+  const handleReplay = async (entry: HistoryEntry) => {
+    if (isPlaying) return;
+    const duration = await startPlayback(entry.text, 0, { repeatCount, gap: loopGap }, entry.theme);
+    addToHistory(entry.text, entry.theme, duration);
+  };
+
+  const handleToggleFavorite = (entry: HistoryEntry) => {
+    const updated = { ...entry, favorite: !entry.favorite };
+    updateHistory(historyRef.current.map(e => (e.id === entry.id ? updated : e)));
+    persistHistory(historyStoreRef.current.put(updated));
+  };
+
+  const handleDeleteHistory = (entry: HistoryEntry) => {
+    updateHistory(historyRef.current.filter(e => e.id !== entry.id));
+    persistHistory(historyStoreRef.current.remove(entry.id));
+  };
+
+  const handlePauseResume = () => {
+    if (!isPlaying) return;
+    if (isPaused) {
+      audioEngineRef.current.resume();
+      setIsPaused(false);
+    } else {
+      audioEngineRef.current.pause();
+      setIsPaused(true);
+    }
+  };
+
+  // 타임라인의 time(초) 지점으로 이동 — 정지 상태면 그 지점부터 재생 시작
+  const handleSeek = (time: number) => {
+    if (!isPlaying) {
+      handlePlay(time);
+      return;
+    }
+    startTimeRef.current = audioEngineRef.current.seek(time);
+  };
+
+  // 현재 텍스트/테마를 오프라인 렌더링해 WAV로 저장
+  const handleExport = async () => {
+    if (isPlaying || isExporting) return;
+
+    const text = readInputText();
+    if (!text) return;
+
+    const currentTheme = buildTheme(text);
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      audioEngineRef.current.generateTimeline(text, currentTheme);
+      const rendered = await audioEngineRef.current.renderOffline(currentTheme);
+      downloadBlob(new Blob([audioBufferToWav(rendered)], { type: 'audio/wav' }), 'morse-melody.wav');
+    } catch (err) {
+      setExportError(err instanceof Error ? `Export failed: ${err.message}` : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // 현재 타임라인을 멜로디/반주 2트랙 MIDI 파일로 저장
+  const handleExportMidi = () => {
+    const text = readInputText();
+    if (!text) return;
+
+    const currentTheme = buildTheme(text);
+    const timeline = audioEngineRef.current.generateTimeline(text, currentTheme);
+    const padNotes = buildAccompaniment(currentTheme, buildChordSections(timeline, currentTheme), Infinity);
+    const midi = timelineToMidi(timeline, padNotes, currentTheme);
+    downloadBlob(new Blob([midi], { type: 'audio/midi' }), 'morse-melody.mid');
   };
 
   // 재생 중에 어떤 부분까지 왔는지 0~1 진척도를 계산
@@ -222,6 +589,8 @@ const App: React.FC = () => {
         setPlaybackProgress(0);
         return;
       }
+      // 반복 재생 시 회차가 바뀌면 기준 시각도 바뀌므로 매 프레임 갱신
+      startTimeRef.current = audioEngineRef.current.getPlaybackOrigin();
       const rel = audioCtxRef.current.currentTime - startTimeRef.current;
       const total = totalDurationRef.current || 0.0001;
       const p = Math.min(Math.max(rel / total, 0), 1);
@@ -240,30 +609,141 @@ const App: React.FC = () => {
     };
   }, [isPlaying]);
 
+  const wpmInfo = describeWpm(theme);
+  const wpmLabel =
+    wpmInfo.effectiveWpm < wpmInfo.wpm
+      ? `${Math.round(wpmInfo.wpm)}/${Math.round(wpmInfo.effectiveWpm)} WPM`
+      : `${Math.round(wpmInfo.wpm)} WPM`;
+
   // 인라인 JSX만 사용 (함수 컴포넌트 X → 매 렌더 textarea 리마운트 방지)
   const controlsContentJSX = (
     <>
-      {/* 텍스트 입력 - 비제어(한글 IME 정상 동작) + blur/compositionEnd에서만 state 동기화 */}
-      <div className="relative group">
-        <div
-          className={`absolute -inset-0.5 bg-gradient-to-r from-sky-500 to-purple-600 rounded-lg blur opacity-30 group-hover:opacity-60 transition duration-1000 group-hover:duration-200 ${
-            isPlaying ? 'animate-pulse opacity-60' : ''
-          }`}
-        ></div>
-        <textarea
-          ref={inputRef}
-          onBlur={syncInputToState}
-          onCompositionEnd={(e) => {
-            inputValueRef.current = e.currentTarget.value;
-            setInputText(e.currentTarget.value);
-          }}
-          onInput={(e) => {
-            inputValueRef.current = e.currentTarget.value;
-          }}
-          placeholder="Write something..."
-          rows={2}
-          className="relative w-full h-14 md:h-16 py-2 px-3 rounded-lg bg-slate-900/80 backdrop-blur-xl text-white focus:outline-none resize-none shadow-[0_0_40px_rgba(56,189,248,0.35)] border border-white/10 placeholder-slate-400 text-sm leading-snug tracking-wide"
-          style={{ fontFamily: `'Noto Sans KR', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif` }}
+      {/* 모드: 텍스트 재생 / Koch 연습 / 키 입력 / 수신 해독 */}
+      <div className="flex justify-center">
+        <div className="flex rounded-full border border-white/20 overflow-hidden text-[10px] md:text-xs font-mono">
+          {(['play', 'practice', 'key', 'listen'] as const).map((mode) => (
+            <button
+              key={mode}
+              className={`px-4 py-1.5 uppercase tracking-widest ${appMode === mode ? 'bg-white/20 text-white' : 'bg-white/5 text-slate-400'}`}
+              onClick={() => setAppMode(mode)}
+              disabled={isPlaying}
+            >
+              {mode === 'play' ? 'Play' : mode === 'practice' ? 'Practice' : mode === 'key' ? 'Key' : 'Listen'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {appMode === 'practice' && (
+        <KochTrainer isPlaying={isPlaying} onPlay={(text) => startPlayback(text, 0, { repeatCount: 1, gap: 0 })} />
+      )}
+
+      {appMode === 'key' && (
+        <KeyInput
+          engine={audioEngineRef.current}
+          theme={theme}
+          audioCtxRef={audioCtxRef}
+          startTimeRef={startTimeRef}
+          onKeyedEvents={setLiveEvents}
+        />
+      )}
+
+      {appMode === 'listen' && (
+        <ListenInput audioCtxRef={audioCtxRef} startTimeRef={startTimeRef} onDecodedEvents={setLiveEvents} />
+      )}
+
+      {/* 연습 모드에서도 textarea는 마운트 유지 (IME 상태·입력값 보존) */}
+      <div className={appMode === 'play' ? 'contents' : 'hidden'}>
+        {/* 텍스트 입력 - 비제어(한글 IME 정상 동작) + blur/compositionEnd에서만 state 동기화 */}
+        <div className="relative group">
+          <div
+            className={`absolute -inset-0.5 bg-gradient-to-r from-sky-500 to-purple-600 rounded-lg blur opacity-30 group-hover:opacity-60 transition duration-1000 group-hover:duration-200 ${
+              isPlaying ? 'animate-pulse opacity-60' : ''
+            }`}
+          ></div>
+          <textarea
+            ref={inputRef}
+            onBlur={syncInputToState}
+            onCompositionEnd={(e) => {
+              inputValueRef.current = e.currentTarget.value;
+              setInputText(e.currentTarget.value);
+            }}
+            onInput={(e) => {
+              inputValueRef.current = e.currentTarget.value;
+            }}
+            placeholder="Write something..."
+            rows={2}
+            className="relative w-full h-14 md:h-16 py-2 px-3 rounded-lg bg-slate-900/80 backdrop-blur-xl text-white focus:outline-none resize-none shadow-[0_0_40px_rgba(56,189,248,0.35)] border border-white/10 placeholder-slate-400 text-sm leading-snug tracking-wide"
+            style={{ fontFamily: `'Noto Sans KR', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif` }}
+            disabled={isPlaying}
+          />
+        </div>
+
+        {morsePreview && morsePreview.morse && (
+          <div className="flex items-start gap-2 text-[10px] md:text-xs font-mono text-slate-400 bg-slate-900/70 border border-white/10 rounded-lg px-3 py-2">
+            <span className="uppercase tracking-widest text-slate-500">Morse</span>
+            <span className="text-slate-200 break-all flex-1">{morsePreview.morse}</span>
+            {hasHangul && (
+              <button
+                className={`px-2 py-0.5 rounded-full border whitespace-nowrap transition-colors ${
+                  isStrictHangul ? 'bg-sky-500/40 border-sky-300 text-white' : 'bg-white/5 border-white/20 text-slate-300'
+                }`}
+                onClick={() => setIsStrictHangul(!isStrictHangul)}
+                title="Mark syllable boundaries so pasted code decodes back to the same syllables"
+              >
+                음절 |
+              </button>
+            )}
+            <button
+              className="text-slate-500 hover:text-slate-200"
+              onClick={() => copyText('Morse code', morsePreview.morse)}
+              title="Copy Morse code"
+            >
+              <Copy className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+
+        {skippedChars.length > 0 && (
+          <div className="text-[10px] md:text-xs font-mono text-amber-300 px-1">
+            Skipped (no Morse code): {skippedChars.join(' ')}
+          </div>
+        )}
+
+        {/* 모스 부호 입력 감지 시 해독 결과 미리보기 */}
+        {morseDecodePreview && (
+          <div className="flex flex-wrap items-center gap-2 text-[10px] md:text-xs font-mono text-slate-300 bg-slate-900/70 border border-white/10 rounded-lg px-3 py-2">
+            <span className="uppercase tracking-widest text-slate-500">Decoded</span>
+            <span className="text-white break-all">{morseDecodePreview.text || '—'}</span>
+            <AlphabetSelect className="ml-auto" value={morseAlphabet} onChange={setMorseAlphabet} disabled={isPlaying} />
+            <button
+              className={`px-2 py-0.5 rounded-full border transition-colors ${
+                isWabunMorse ? 'bg-sky-500/40 border-sky-300 text-white' : 'bg-white/5 border-white/20 text-slate-300'
+              }`}
+              onClick={() => setIsWabunMorse(!isWabunMorse)}
+              disabled={isPlaying}
+            >
+              和文
+            </button>
+            {morseDecodePreview.unknown.length > 0 && (
+              <span className="w-full text-amber-300">
+                Unknown codes: {morseDecodePreview.unknown.join(' ')}
+              </span>
+            )}
+            {findQCodes(morseDecodePreview.text).map(({ code, meaning }) => (
+              <span key={code} className="w-full text-slate-400">
+                <span className="text-sky-300">{code}</span> {meaning}
+              </span>
+            ))}
+          </div>
+        )}
+
+        <HistoryPanel
+          entries={history}
+          error={historyError}
+          onReplay={handleReplay}
+          onToggleFavorite={handleToggleFavorite}
+          onDelete={handleDeleteHistory}
           disabled={isPlaying}
         />
       </div>
@@ -282,50 +762,305 @@ const App: React.FC = () => {
                     transition-all duration-200 hover:scale-105 active:scale-95
                     ${isSelected ? preset.selected : preset.unselected}
                   `}
-                  onClick={() => {
-                    setSelectedMood(preset.mood);
-                    setSelectedWaveform(preset.waveform);
-                    setSelectedScale(preset.scale);
-                    setSelectedTempo(preset.tempo);
-                    setSelectedBaseFreq(preset.baseFreq);
-                    setSelectedInstrument(preset.instrument);
-                    setIsAutoTheme(false);
-                    setSelectedPresetId(preset.id);
-                  }}
+                  onClick={() => applyStylePreset(preset)}
                 >
                   {preset.label}
                   {isSelected && <span className="ml-1.5">✓</span>}
                 </button>
               );
             })}
+            {/* 사용자 프리셋: 저장한 주 색상으로 구분 */}
+            {customPresets.map((preset) => {
+              const isSelected = selectedPresetId === preset.id;
+              return (
+                <span
+                  key={preset.id}
+                  className={`
+                    pl-3 md:pl-4 pr-1.5 py-1.5 md:py-2 rounded-full border-2 border-dashed font-semibold text-[10px] md:text-xs flex items-center gap-1.5
+                    transition-all duration-200 hover:scale-105
+                    ${isSelected ? 'ring-2 ring-offset-2 ring-offset-slate-900 text-white' : 'text-slate-200'}
+                  `}
+                  style={{ borderColor: preset.theme.primaryColor, backgroundColor: `${preset.theme.primaryColor}${isSelected ? '99' : '40'}` }}
+                >
+                  <button
+                    onClick={() => {
+                      applyPresetTheme(preset.theme);
+                      setSelectedPresetId(preset.id);
+                    }}
+                  >
+                    {preset.label}
+                    {isSelected && <span className="ml-1.5">✓</span>}
+                  </button>
+                  <button
+                    className="px-1 text-slate-300 hover:text-white"
+                    onClick={() => handleDeletePreset(preset.id)}
+                    title="Delete preset"
+                  >
+                    ×
+                  </button>
+                </span>
+              );
+            })}
           </div>
         </div>
       </section>
 
-      <div className="flex justify-center">
-        <button
-          onClick={handlePlay}
-          className={`
-              relative px-6 md:px-10 py-3 md:py-5 rounded-full font-bold text-sm md:text-lg flex items-center gap-2 md:gap-3 transition-all transform hover:scale-105 active:scale-95 border
-              ${isPlaying 
-                  ? 'bg-red-500/10 text-red-300 border-red-500/30 hover:bg-red-500/20 backdrop-blur-md' 
-                  : 'bg-white text-slate-900 border-white hover:bg-sky-50 shadow-[0_0_30px_rgba(56,189,248,0.4)]'
-              }
-          `}
-        >
-           {isPlaying ? (
-              <>
-                  <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
-                  <span>Stop</span>
-              </>
-           ) : (
-              <>
-                  <Music className="w-4 md:w-5 h-4 md:h-5" />
-                  <span>Generate Music</span>
-              </>
-           )}
-        </button>
+      <ThemeEditor
+        value={toPresetTheme(theme)}
+        onChange={handleThemeEdit}
+        onSave={handleSavePreset}
+        onExport={handleExportPresets}
+        onImport={handleImportPresets}
+        presetError={presetError}
+        disabled={isPlaying}
+      />
+
+      <MixerPanel value={mixer} onChange={handleMixerChange} presetLabel={mixerPresetLabel} error={mixerError} />
+
+      {/* 타이밍: 비율(ITU/음악적), 문자 WPM, Farnsworth 실효 WPM */}
+      <section className="text-xs font-mono text-slate-300">
+        <div className="bg-slate-900/70 border border-white/10 rounded-lg md:rounded-xl p-3 md:p-4 backdrop-blur-md flex flex-wrap items-center gap-3 md:gap-4">
+          <div className="flex rounded-full border border-white/20 overflow-hidden">
+            {(['musical', 'itu'] as const).map((r) => (
+              <button
+                key={r}
+                className={`px-3 py-1 text-[10px] md:text-xs uppercase ${timingRatios === r ? 'bg-sky-500/40 text-white' : 'bg-white/5 text-slate-400'}`}
+                onClick={() => setTimingRatios(r)}
+                disabled={isPlaying}
+              >
+                {r === 'itu' ? 'ITU' : 'Musical'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            <span className="text-slate-500">WPM</span>
+            <input
+              type="range"
+              min={5}
+              max={40}
+              value={timingWpm === '' ? Math.round(wpmInfo.wpm) : timingWpm}
+              onChange={(e) => setTimingWpm(Number(e.target.value))}
+              disabled={isPlaying}
+            />
+            {timingWpm !== '' && (
+              <button className="text-slate-500 hover:text-slate-200" onClick={() => setTimingWpm('')} disabled={isPlaying}>
+                auto
+              </button>
+            )}
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={farnsworthWpm !== ''}
+              onChange={(e) => setFarnsworthWpm(e.target.checked ? Math.max(5, Math.round(wpmInfo.wpm / 2)) : '')}
+              disabled={isPlaying}
+            />
+            <span className="text-slate-500">Farnsworth</span>
+            {farnsworthWpm !== '' && (
+              <input
+                type="range"
+                min={3}
+                max={Math.max(3, Math.round(wpmInfo.wpm))}
+                value={farnsworthWpm}
+                onChange={(e) => setFarnsworthWpm(Number(e.target.value))}
+                disabled={isPlaying}
+              />
+            )}
+          </label>
+          <span className="ml-auto text-white">{wpmLabel}</span>
+        </div>
+        {/* 그루브: 음 시작을 BPM 격자에 맞추고 스윙 (반주도 같은 박, 비주얼라이저에 마디선) */}
+        <div className="mt-2 bg-slate-900/70 border border-white/10 rounded-lg md:rounded-xl p-3 md:p-4 backdrop-blur-md flex flex-wrap items-center gap-3 md:gap-4">
+          <Drum className="w-4 h-4 text-slate-500" />
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={groove !== null}
+              onChange={(e) => setGroove(e.target.checked ? DEFAULT_GROOVE : null)}
+              disabled={isPlaying}
+            />
+            <span className="text-slate-500">Groove</span>
+          </label>
+          {groove && (
+            <>
+              <label className="flex items-center gap-2">
+                <span className="text-slate-500">BPM</span>
+                <input
+                  type="range"
+                  min={GROOVE_BPM_RANGE[0]}
+                  max={GROOVE_BPM_RANGE[1]}
+                  value={groove.bpm}
+                  onChange={(e) => setGroove({ ...groove, bpm: Number(e.target.value) })}
+                  disabled={isPlaying}
+                />
+                <span className="text-white w-8">{groove.bpm}</span>
+              </label>
+              <div className="flex rounded-full border border-white/20 overflow-hidden">
+                {GROOVE_SUBDIVISIONS.map(({ value, label }) => (
+                  <button
+                    key={value}
+                    className={`px-3 py-1 text-[10px] md:text-xs ${groove.subdivision === value ? 'bg-sky-500/40 text-white' : 'bg-white/5 text-slate-400'}`}
+                    onClick={() => setGroove({ ...groove, subdivision: value })}
+                    disabled={isPlaying}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex rounded-full border border-white/20 overflow-hidden">
+                {[3, 4].map((beats) => (
+                  <button
+                    key={beats}
+                    className={`px-3 py-1 text-[10px] md:text-xs ${groove.beatsPerBar === beats ? 'bg-sky-500/40 text-white' : 'bg-white/5 text-slate-400'}`}
+                    onClick={() => setGroove({ ...groove, beatsPerBar: beats })}
+                    disabled={isPlaying}
+                  >
+                    {beats}/4
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2">
+                <span className="text-slate-500">Swing</span>
+                <input
+                  type="range"
+                  min={GROOVE_SWING_RANGE[0]}
+                  max={GROOVE_SWING_RANGE[1]}
+                  step={0.01}
+                  value={groove.swing}
+                  onChange={(e) => setGroove({ ...groove, swing: Number(e.target.value) })}
+                  disabled={isPlaying}
+                />
+                <span className="text-white w-10">{Math.round(groove.swing * 100)}%</span>
+              </label>
+            </>
+          )}
+        </div>
+        {/* 반복 재생 */}
+        <div className="mt-2 bg-slate-900/70 border border-white/10 rounded-lg md:rounded-xl p-3 md:p-4 backdrop-blur-md flex flex-wrap items-center gap-3 md:gap-4">
+          <Repeat className="w-4 h-4 text-slate-500" />
+          <div className="flex rounded-full border border-white/20 overflow-hidden">
+            {[1, 2, 3, 5, 10, Infinity].map((count) => (
+              <button
+                key={count}
+                className={`px-2.5 py-1 text-[10px] md:text-xs ${repeatCount === count ? 'bg-sky-500/40 text-white' : 'bg-white/5 text-slate-400'}`}
+                onClick={() => setRepeatCount(count)}
+                disabled={isPlaying}
+              >
+                {isFinite(count) ? `×${count}` : '∞'}
+              </button>
+            ))}
+          </div>
+          {repeatCount > 1 && (
+            <label className="flex items-center gap-2">
+              <span className="text-slate-500">Gap</span>
+              <input
+                type="range"
+                min={0}
+                max={10}
+                step={0.5}
+                value={loopGap}
+                onChange={(e) => setLoopGap(Number(e.target.value))}
+                disabled={isPlaying}
+              />
+              <span className="text-white w-10">{loopGap.toFixed(1)}s</span>
+            </label>
+          )}
+        </div>
+      </section>
+
+      {/* 읽기 패널: 문자를 누르면 그 위치부터 재생 (연습 모드에서는 정답이 보이므로 숨김) */}
+      {appMode === 'play' && (isPlaying || inputText.trim()) && (
+        <ReadAlongPanel
+          text={timelineText}
+          events={events}
+          isPlaying={isPlaying}
+          audioCtxRef={audioCtxRef}
+          startTimeRef={startTimeRef}
+          onSeek={handleSeek}
+        />
+      )}
+
+      <div className="flex justify-center items-center gap-3">
+        {/* 연습 모드에서는 트레이너가 재생을 시작하므로 정지 버튼만, 키 입력·수신 모드에서는 숨김 */}
+        {(appMode === 'play' || isPlaying) && (
+          <button
+            onClick={() => handlePlay()}
+            className={`
+                relative px-6 md:px-10 py-3 md:py-5 rounded-full font-bold text-sm md:text-lg flex items-center gap-2 md:gap-3 transition-all transform hover:scale-105 active:scale-95 border
+                ${isPlaying 
+                    ? 'bg-red-500/10 text-red-300 border-red-500/30 hover:bg-red-500/20 backdrop-blur-md' 
+                    : 'bg-white text-slate-900 border-white hover:bg-sky-50 shadow-[0_0_30px_rgba(56,189,248,0.4)]'
+                }
+            `}
+          >
+             {isPlaying ? (
+                <>
+                    <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
+                    <span>Stop</span>
+                </>
+             ) : (
+                <>
+                    <Music className="w-4 md:w-5 h-4 md:h-5" />
+                    <span>Generate Music</span>
+                </>
+             )}
+          </button>
+        )}
+        {isPlaying && (
+          <button
+            onClick={handlePauseResume}
+            className="px-4 md:px-6 py-3 md:py-5 rounded-full font-bold text-xs md:text-sm flex items-center gap-2 transition-all border bg-white/5 text-slate-200 border-white/20 hover:bg-white/10"
+          >
+            {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+            <span>{isPaused ? 'Resume' : 'Pause'}</span>
+          </button>
+        )}
+        {appMode === 'play' && (
+          <>
+            <button
+              onClick={handleExport}
+              disabled={isPlaying || isExporting}
+              className="px-4 md:px-6 py-3 md:py-5 rounded-full font-bold text-xs md:text-sm flex items-center gap-2 transition-all border bg-white/5 text-slate-200 border-white/20 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Download className="w-4 h-4" />
+              <span>{isExporting ? 'Rendering…' : 'Export'}</span>
+            </button>
+            <button
+              onClick={handleExportMidi}
+              disabled={isPlaying}
+              className="px-4 md:px-6 py-3 md:py-5 rounded-full font-bold text-xs md:text-sm flex items-center gap-2 transition-all border bg-white/5 text-slate-200 border-white/20 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <FileMusic className="w-4 h-4" />
+              <span>MIDI</span>
+            </button>
+            <button
+              onClick={handleCopyShareLink}
+              className="px-4 md:px-6 py-3 md:py-5 rounded-full font-bold text-xs md:text-sm flex items-center gap-2 transition-all border bg-white/5 text-slate-200 border-white/20 hover:bg-white/10"
+              title="Copy a link with this text and style"
+            >
+              <Link className="w-4 h-4" />
+              <span>{isLinkCopied ? 'Copied' : 'Share'}</span>
+            </button>
+          </>
+        )}
       </div>
+      {appMode === 'play' && exportError && (
+        <p className="mt-2 text-center text-[10px] md:text-xs font-mono text-rose-400">{exportError}</p>
+      )}
+      {appMode === 'play' && uncopied && (
+        <div className="mt-2 flex items-center justify-center gap-2 text-[10px] md:text-xs font-mono">
+          <span className="text-rose-400 flex-shrink-0">Clipboard blocked — copy the {uncopied.label}:</span>
+          <input
+            readOnly
+            value={uncopied.text}
+            onFocus={(e) => e.target.select()}
+            className="min-w-0 flex-1 max-w-md bg-white/5 border border-white/20 rounded px-2 py-1 text-slate-200"
+          />
+          <button className="text-slate-400 hover:text-slate-200" onClick={() => setUncopied(null)} title="Dismiss">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
 
       {/* How it works - Minimal */}
       <div className="mt-2 md:mt-4 flex justify-center opacity-60 hover:opacity-100 transition-opacity">
@@ -360,11 +1095,14 @@ const App: React.FC = () => {
 
         <div className="relative w-full flex-none h-[40dvh] min-h-[280px] lg:fixed lg:inset-0 lg:h-full lg:w-screen lg:min-w-0 lg:min-h-0 z-10">
           <Visualizer 
-              isPlaying={isPlaying} 
-              events={events} 
+              isPlaying={isPlaying || isLiveMode} 
+              events={isLiveMode ? liveEvents : events} 
               theme={theme}
               audioCtxRef={audioCtxRef}
               startTimeRef={startTimeRef}
+              onSeek={appMode === 'play' ? handleSeek : undefined}
+              showLabels={appMode !== 'practice'}
+              groove={isLiveMode ? undefined : theme.groove}
           />
           {/* Status Overlay - 모바일 */}
           <div className="lg:hidden absolute top-3 left-3 pointer-events-none z-10">
@@ -374,8 +1112,9 @@ const App: React.FC = () => {
                   <span className="text-[8px] font-mono uppercase text-slate-400 tracking-widest">{isAutoTheme ? 'Auto Mood' : 'Custom Mood'}</span>
                   <span className="text-lg font-bold tracking-tight drop-shadow-[0_0_10px_rgba(255,255,255,0.3)]" style={{ color: theme.primaryColor }}>{theme.mood}</span>
                   <div className="flex gap-1 text-[8px] text-slate-400 font-mono mt-1 uppercase tracking-wide">
-                    <span className="bg-white/10 px-1.5 py-0.5 rounded">{theme.instrument ?? 'sine'}</span>
+                    <span className="bg-white/10 px-1.5 py-0.5 rounded">{getVoice(theme.instrument).label}</span>
                     <span className="bg-white/10 px-1.5 py-0.5 rounded">{theme.baseFrequency}Hz</span>
+                    <span className="bg-white/10 px-1.5 py-0.5 rounded">{wpmLabel}</span>
                   </div>
                 </div>
               </div>
@@ -390,7 +1129,7 @@ const App: React.FC = () => {
             <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-sky-300 via-purple-300 to-pink-300 font-mono tracking-wider">MORSE MELODY</h1>
           </div>
           <div className="flex items-center gap-4 text-xs font-mono text-slate-400">
-            <span className="px-3 py-1 rounded-full bg-white/5 border border-white/10">English / Hangul / Numbers</span>
+            <span className="px-3 py-1 rounded-full bg-white/5 border border-white/10">Latin / Hangul / Kana / Cyrillic / Greek</span>
           </div>
         </header>
         {/* 데스크톱: Status Overlay */}
@@ -401,8 +1140,9 @@ const App: React.FC = () => {
                 <span className="text-[10px] font-mono uppercase text-slate-400 tracking-widest">{isAutoTheme ? 'Auto Mood' : 'Custom Mood'}</span>
                 <span className="text-3xl font-bold tracking-tight drop-shadow-[0_0_10px_rgba(255,255,255,0.3)]" style={{ color: theme.primaryColor }}>{theme.mood}</span>
                 <div className="flex gap-2 text-[10px] text-slate-400 font-mono mt-2 uppercase tracking-wide">
-                  <span className="bg-white/10 px-2 py-1 rounded">{theme.instrument ?? 'sine'}</span>
+                  <span className="bg-white/10 px-2 py-1 rounded">{getVoice(theme.instrument).label}</span>
                   <span className="bg-white/10 px-2 py-1 rounded">{theme.baseFrequency}Hz</span>
+                  <span className="bg-white/10 px-2 py-1 rounded">{wpmLabel}</span>
                 </div>
               </div>
             </div>
@@ -0,0 +1,27 @@
+import React from 'react';
+import { MORSE_ALPHABETS, MorseAlphabet } from '../utils/morseMapping';
+
+interface AlphabetSelectProps {
+  value: MorseAlphabet;
+  onChange: (alphabet: MorseAlphabet) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// 해독 시 겹치는 부호를 어느 문자 체계로 읽을지 선택
+const AlphabetSelect: React.FC<AlphabetSelectProps> = ({ value, onChange, disabled, className = '' }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as MorseAlphabet)}
+    disabled={disabled}
+    className={`px-2 py-0.5 rounded-full border border-white/20 bg-slate-900 text-slate-200 focus:outline-none ${className}`}
+  >
+    {MORSE_ALPHABETS.map(({ id, label }) => (
+      <option key={id} value={id}>
+        {label}
+      </option>
+    ))}
+  </select>
+);
+
+export default AlphabetSelect;
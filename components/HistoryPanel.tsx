@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { ChevronDown, History, Play, Search, Star, Trash2 } from 'lucide-react';
+import { HistoryEntry } from '../types';
+import { filterHistory } from '../utils/history';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[]; // 최근 재생 순
+  onReplay: (entry: HistoryEntry) => void;
+  onToggleFavorite: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  disabled?: boolean; // 재생 중
+  error?: string | null; // 기록 저장소 실패
+}
+
+const formatPlayedAt = (playedAt: number) =>
+  new Date(playedAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, onReplay, onToggleFavorite, onDelete, disabled, error }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+
+  const visible = filterHistory(entries, query, favoritesOnly);
+
+  return (
+    <section className="text-xs font-mono text-slate-300">
+      <div className="bg-slate-900/70 border border-white/10 rounded-lg md:rounded-xl p-3 md:p-4 backdrop-blur-md flex flex-col gap-3">
+        <button className="flex items-center gap-2 text-slate-400 hover:text-slate-200" onClick={() => setIsOpen(!isOpen)}>
+          <History className="w-4 h-4" />
+          <span className="uppercase tracking-widest">History</span>
+          <span className="text-slate-500">{entries.length}</span>
+          <ChevronDown className={`w-4 h-4 ml-auto transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+
+        {isOpen && (
+          <>
+            <div className="flex items-center gap-2">
+              <div className="flex items-center gap-1.5 flex-1 px-2 py-0.5 rounded border border-white/20 bg-slate-900">
+                <Search className="w-3.5 h-3.5 text-slate-500" />
+                <input
+                  className="flex-1 bg-transparent text-slate-200 focus:outline-none"
+                  placeholder="Search text or mood"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                />
+              </div>
+              <button
+                className={`px-2 py-0.5 rounded-full border flex items-center gap-1 ${
+                  favoritesOnly ? 'bg-amber-500/30 border-amber-300 text-white' : 'bg-white/5 border-white/20 text-slate-400'
+                }`}
+                onClick={() => setFavoritesOnly(!favoritesOnly)}
+              >
+                <Star className="w-3.5 h-3.5" />
+                <span>Favorites</span>
+              </button>
+            </div>
+
+            {visible.length === 0 ? (
+              <span className="text-slate-500">{entries.length === 0 ? 'Played messages will appear here.' : 'No matches.'}</span>
+            ) : (
+              <ul className="flex flex-col gap-1 max-h-56 overflow-y-auto">
+                {visible.map((entry) => (
+                  <li key={entry.id} className="flex items-center gap-2 px-2 py-1 rounded bg-white/5 hover:bg-white/10">
+                    <button
+                      className={entry.favorite ? 'text-amber-300' : 'text-slate-500 hover:text-slate-300'}
+                      onClick={() => onToggleFavorite(entry)}
+                      title={entry.favorite ? 'Remove from favorites' : 'Add to favorites'}
+                    >
+                      <Star className="w-3.5 h-3.5" fill={entry.favorite ? 'currentColor' : 'none'} />
+                    </button>
+                    <button
+                      className="flex-1 min-w-0 flex items-center gap-2 text-left disabled:opacity-40"
+                      onClick={() => onReplay(entry)}
+                      disabled={disabled}
+                      title="Play again"
+                    >
+                      <Play className="w-3.5 h-3.5 flex-shrink-0 text-slate-400" />
+                      <span className="truncate text-slate-200">{entry.text}</span>
+                    </button>
+                    <span className="px-1.5 rounded bg-white/10 whitespace-nowrap" style={{ color: entry.theme.primaryColor }}>
+                      {entry.theme.mood}
+                    </span>
+                    <span className="text-slate-500 whitespace-nowrap">{entry.duration.toFixed(1)}s</span>
+                    <span className="hidden md:inline text-slate-500 whitespace-nowrap">{formatPlayedAt(entry.playedAt)}</span>
+                    <button className="text-slate-500 hover:text-rose-300" onClick={() => onDelete(entry)} title="Delete">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        {error && <span className="text-rose-400">{error}</span>}
+      </div>
+    </section>
+  );
+};
+
+export default HistoryPanel;
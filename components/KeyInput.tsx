@@ -0,0 +1,219 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Radio } from 'lucide-react';
+import { AudioEngine } from '../services/audioEngine';
+import { MorseSymbol, PlaybackEvent, ThemeConfig } from '../types';
+import { computeTimingUnits, resolveTiming } from '../utils/morseTiming';
+import AlphabetSelect from './AlphabetSelect';
+import { MorseAlphabet } from '../utils/morseMapping';
+import { IambicKeyer, KeyedElement, KeyedMorseDecoder, KeyedTimeline, KeyerMode } from '../utils/keyer';
+
+interface KeyInputProps {
+  engine: AudioEngine;
+  theme: ThemeConfig; // 현재 악기·WPM으로 톤과 타이밍 결정
+  audioCtxRef: React.MutableRefObject<AudioContext | null>;
+  startTimeRef: React.MutableRefObject<number>;
+  onKeyedEvents: (events: PlaybackEvent[]) => void; // 비주얼라이저 타임라인용
+}
+
+const UPDATE_INTERVAL_MS = 5;
+
+// 다른 입력창에 타이핑 중일 때는 키 입력으로 보지 않음
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+const KeyInput: React.FC<KeyInputProps> = ({ engine, theme, audioCtxRef, startTimeRef, onKeyedEvents }) => {
+  const [mode, setMode] = useState<KeyerMode>('straight');
+  const [alphabet, setAlphabet] = useState<MorseAlphabet>('latin');
+  const [decodedText, setDecodedText] = useState('');
+  const [pendingCode, setPendingCode] = useState('');
+  const [isKeyDown, setIsKeyDown] = useState(false);
+
+  const units = computeTimingUnits(resolveTiming(theme));
+  const themeRef = useRef(theme);
+  const modeRef = useRef(mode);
+  const decoderRef = useRef(new KeyedMorseDecoder(units));
+  const keyerRef = useRef(new IambicKeyer(units, 'iambicA'));
+  const paddlesRef = useRef({ dit: false, dah: false });
+  const timelineRef = useRef(new KeyedTimeline());
+
+  themeRef.current = theme;
+  modeRef.current = mode;
+
+  useEffect(() => {
+    decoderRef.current.setUnits(units);
+    keyerRef.current.setUnits(units);
+  }, [units.dot, units.dash, units.elementGap, units.letterGap, units.wordGap]);
+
+  useEffect(() => {
+    decoderRef.current.setAlphabet(alphabet);
+  }, [alphabet]);
+
+  useEffect(() => {
+    if (mode !== 'straight') keyerRef.current.setMode(mode);
+  }, [mode]);
+
+  const now = () => audioCtxRef.current?.currentTime ?? 0;
+
+  // 요소 하나를 타임라인에 추가 (startTime은 키 입력 시작 기준)
+  const pushElement = (element: KeyedElement) => {
+    onKeyedEvents(timelineRef.current.add(element, startTimeRef.current, themeRef.current.baseFrequency));
+  };
+
+  // 컨텍스트 준비: 비주얼라이저가 키 입력 시작 시각을 기준으로 타임라인을 그림
+  useEffect(() => {
+    const ctx = engine.startKeying();
+    audioCtxRef.current = ctx;
+    startTimeRef.current = ctx ? ctx.currentTime : 0;
+    timelineRef.current.clear();
+    onKeyedEvents([]);
+    return () => {
+      engine.stop();
+      audioCtxRef.current = null;
+    };
+  }, [engine]);
+
+  // 주기적으로: 패들 키어 진행, 문자/단어 간격 판정
+  useEffect(() => {
+    const id = window.setInterval(() => {
+      const t = now();
+      if (modeRef.current !== 'straight') {
+        const element = keyerRef.current.update(t);
+        if (element) {
+          engine.playKeyedElement(themeRef.current, element.symbol, element.duration);
+          decoderRef.current.addElement(element);
+          pushElement(element);
+        }
+      }
+      decoderRef.current.update(t);
+      const pending = decoderRef.current.getPendingCode();
+      // 글자가 확정되면 해당 요소들에 글자 라벨을 붙임
+      if (!pending && timelineRef.current.hasPendingLetter()) onKeyedEvents(timelineRef.current.confirmLetter(alphabet));
+      setPendingCode(pending);
+      setDecodedText(decoderRef.current.getText());
+    }, UPDATE_INTERVAL_MS);
+    return () => window.clearInterval(id);
+  }, [engine, alphabet]);
+
+  const straightDown = () => {
+    if (isKeyDown) return;
+    setIsKeyDown(true);
+    decoderRef.current.keyDown(now());
+    engine.keyDown(themeRef.current);
+  };
+
+  const straightUp = () => {
+    setIsKeyDown(false);
+    engine.keyUp();
+    const element = decoderRef.current.keyUp(now());
+    if (element) pushElement(element);
+  };
+
+  const setPaddle = (paddle: 'dit' | 'dah', pressed: boolean) => {
+    paddlesRef.current = { ...paddlesRef.current, [paddle]: pressed };
+    keyerRef.current.setPaddles(paddlesRef.current.dit, paddlesRef.current.dah, now());
+  };
+
+  // 키보드: Space = straight key, Z/← = dit 패들, X/→ = dah 패들
+  useEffect(() => {
+    const handle = (e: KeyboardEvent, pressed: boolean) => {
+      if (isTypingTarget(e.target)) return;
+      if (modeRef.current === 'straight') {
+        if (e.code !== 'Space') return;
+        e.preventDefault();
+        if (e.repeat) return;
+        if (pressed) straightDown();
+        else straightUp();
+        return;
+      }
+      if (e.code === 'KeyZ' || e.code === 'ArrowLeft') {
+        e.preventDefault();
+        if (!e.repeat) setPaddle('dit', pressed);
+      } else if (e.code === 'KeyX' || e.code === 'ArrowRight') {
+        e.preventDefault();
+        if (!e.repeat) setPaddle('dah', pressed);
+      }
+    };
+    const onDown = (e: KeyboardEvent) => handle(e, true);
+    const onUp = (e: KeyboardEvent) => handle(e, false);
+    // 누른 채 창을 벗어나면 keyup이 오지 않음 — 톤은 끝이 없으므로 여기서 뗀다
+    const onBlur = () => {
+      if (isKeyDown) straightUp();
+      setPaddle('dit', false);
+      setPaddle('dah', false);
+    };
+    window.addEventListener('keydown', onDown);
+    window.addEventListener('keyup', onUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onDown);
+      window.removeEventListener('keyup', onUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  });
+
+  const clear = () => {
+    decoderRef.current.reset();
+    timelineRef.current.clear();
+    setDecodedText('');
+    onKeyedEvents([]);
+  };
+
+  const padButton = 'flex-1 py-4 rounded-xl border border-white/20 bg-white/5 text-slate-200 select-none active:bg-sky-500/40';
+
+  return (
+    <section className="text-xs font-mono text-slate-300">
+      <div className="bg-slate-900/70 border border-white/10 rounded-lg md:rounded-xl p-3 md:p-4 backdrop-blur-md flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <Radio className="w-4 h-4 text-sky-300" />
+          <div className="flex rounded-full border border-white/20 overflow-hidden">
+            {(['straight', 'iambicA', 'iambicB'] as const).map((m) => (
+              <button
+                key={m}
+                className={`px-3 py-1 text-[10px] md:text-xs ${mode === m ? 'bg-sky-500/40 text-white' : 'bg-white/5 text-slate-400'}`}
+                onClick={() => setMode(m)}
+              >
+                {m === 'straight' ? 'Straight' : m === 'iambicA' ? 'Iambic A' : 'Iambic B'}
+              </button>
+            ))}
+          </div>
+          <AlphabetSelect value={alphabet} onChange={setAlphabet} />
+          <span className="ml-auto text-slate-500">
+            {mode === 'straight' ? 'Hold Space' : 'Z / ← dit · X / → dah'}
+          </span>
+        </div>
+
+        {mode === 'straight' ? (
+          <button
+            className={`${padButton} ${isKeyDown ? 'bg-sky-500/40' : ''}`}
+            onPointerDown={straightDown}
+            onPointerUp={straightUp}
+            onPointerLeave={() => isKeyDown && straightUp()}
+          >
+            KEY
+          </button>
+        ) : (
+          <div className="flex gap-2">
+            <button className={padButton} onPointerDown={() => setPaddle('dit', true)} onPointerUp={() => setPaddle('dit', false)} onPointerLeave={() => setPaddle('dit', false)}>
+              {MorseSymbol.DOT} dit
+            </button>
+            <button className={padButton} onPointerDown={() => setPaddle('dah', true)} onPointerUp={() => setPaddle('dah', false)} onPointerLeave={() => setPaddle('dah', false)}>
+              {MorseSymbol.DASH} dah
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-start gap-2 min-h-[2rem]">
+          <span className="text-sm text-white break-all flex-1">
+            {decodedText}
+            <span className="text-sky-300">{pendingCode}</span>
+          </span>
+          <button className="text-slate-500 hover:text-slate-200" onClick={clear}>
+            clear
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default KeyInput;
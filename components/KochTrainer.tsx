@@ -0,0 +1,178 @@
+import React, { useState, useRef } from 'react';
+import { GraduationCap, Play, RotateCcw } from 'lucide-react';
+import {
+  KochLanguage,
+  KochProgress,
+  RoundResult,
+  KOCH_ORDER,
+  UNLOCK_ACCURACY,
+  applyRound,
+  createProgress,
+  generateGroups,
+  getUnlockedChars,
+  loadProgress,
+  saveProgress,
+  scoreRound,
+} from '../utils/kochTrainer';
+
+interface KochTrainerProps {
+  isPlaying: boolean;
+  onPlay: (text: string) => void; // 현재 테마·타이밍으로 문제 재생
+}
+
+const KochTrainer: React.FC<KochTrainerProps> = ({ isPlaying, onPlay }) => {
+  const [language, setLanguage] = useState<KochLanguage>('en');
+  const [progress, setProgress] = useState<KochProgress>(() => loadProgress('en'));
+  const [round, setRound] = useState<string>('');
+  const [result, setResult] = useState<RoundResult | null>(null);
+  const [unlocked, setUnlocked] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const answerRef = useRef<HTMLInputElement>(null); // 비제어 입력 (한글 IME 대응)
+
+  const unlockedChars = getUnlockedChars(language, progress.level);
+
+  const storeProgress = (next: KochProgress) => {
+    setStorageError(saveProgress(language, next) ? null : 'Progress could not be saved — browser storage is full or blocked');
+    setProgress(next);
+  };
+
+  const switchLanguage = (next: KochLanguage) => {
+    setLanguage(next);
+    setProgress(loadProgress(next));
+    setRound('');
+    setResult(null);
+    setUnlocked(null);
+  };
+
+  const startRound = () => {
+    const groups = generateGroups(unlockedChars);
+    setRound(groups);
+    setResult(null);
+    setUnlocked(null);
+    if (answerRef.current) answerRef.current.value = '';
+    onPlay(groups);
+    answerRef.current?.focus();
+  };
+
+  const submitAnswer = () => {
+    if (!round || result) return;
+    const scored = scoreRound(round, answerRef.current?.value ?? '', language);
+    const next = applyRound(progress, scored, language);
+    storeProgress(next.progress);
+    setResult(scored);
+    setUnlocked(next.unlocked ?? null);
+  };
+
+  const resetProgress = () => {
+    const fresh = createProgress();
+    storeProgress(fresh);
+    setRound('');
+    setResult(null);
+    setUnlocked(null);
+  };
+
+  // 오답률 높은 순으로 문자별 통계
+  const statRows = unlockedChars
+    .map((char) => {
+      const stat = progress.stats[char] ?? { attempts: 0, errors: 0 };
+      return { char, ...stat, errorRate: stat.attempts > 0 ? stat.errors / stat.attempts : 0 };
+    })
+    .sort((a, b) => b.errorRate - a.errorRate);
+
+  return (
+    <section className="text-xs font-mono text-slate-300">
+      <div className="bg-slate-900/70 border border-white/10 rounded-lg md:rounded-xl p-3 md:p-4 backdrop-blur-md flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <GraduationCap className="w-4 h-4 text-sky-300" />
+          <span className="uppercase tracking-widest text-slate-400">Koch Trainer</span>
+          <div className="flex rounded-full border border-white/20 overflow-hidden">
+            {(['en', 'ko'] as const).map((lang) => (
+              <button
+                key={lang}
+                className={`px-3 py-1 text-[10px] md:text-xs ${language === lang ? 'bg-sky-500/40 text-white' : 'bg-white/5 text-slate-400'}`}
+                onClick={() => switchLanguage(lang)}
+                disabled={isPlaying}
+              >
+                {lang === 'en' ? 'English' : '한글'}
+              </button>
+            ))}
+          </div>
+          <span className="ml-auto text-slate-400">
+            Level {unlockedChars.length}/{KOCH_ORDER[language].length}
+          </span>
+          <button className="text-slate-500 hover:text-slate-200" onClick={resetProgress} disabled={isPlaying} title="Reset progress">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          {unlockedChars.map((char) => (
+            <span key={char} className="px-1.5 py-0.5 rounded bg-white/10 text-white">{char}</span>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button
+            className="px-3 py-1.5 rounded-full bg-white text-slate-900 font-bold flex items-center gap-1.5 disabled:opacity-40"
+            onClick={startRound}
+            disabled={isPlaying}
+          >
+            <Play className="w-3.5 h-3.5" />
+            <span>{round && !result ? 'New round' : 'Start round'}</span>
+          </button>
+          {round && !result && (
+            <button className="px-3 py-1.5 rounded-full border border-white/20 text-slate-200" onClick={() => onPlay(round)} disabled={isPlaying}>
+              Replay
+            </button>
+          )}
+        </div>
+
+        <input
+          ref={answerRef}
+          placeholder="Type what you heard, groups separated by spaces"
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.nativeEvent.isComposing) submitAnswer();
+          }}
+          className="w-full py-2 px-3 rounded-lg bg-slate-950/80 text-white border border-white/10 focus:outline-none placeholder-slate-500 tracking-widest"
+          disabled={!round || !!result}
+        />
+
+        {result && (
+          <div className="flex flex-col gap-2">
+            <div className="flex flex-wrap gap-3 text-sm">
+              {result.groups.map((group, g) => (
+                <span key={g} className="flex">
+                  {group.map((c, i) => (
+                    <span key={i} className={c.correct ? 'text-emerald-300' : 'text-rose-400'} title={c.correct ? '' : `typed: ${c.typed || '—'}`}>
+                      {c.expected}
+                    </span>
+                  ))}
+                </span>
+              ))}
+            </div>
+            <span className={result.accuracy >= UNLOCK_ACCURACY ? 'text-emerald-300' : 'text-amber-300'}>
+              Accuracy {Math.round(result.accuracy * 100)}%
+              {unlocked ? ` — new character unlocked: ${unlocked}` : result.accuracy < UNLOCK_ACCURACY ? ` (need ${UNLOCK_ACCURACY * 100}% to unlock)` : ''}
+            </span>
+          </div>
+        )}
+
+        {storageError && <span className="text-rose-400">{storageError}</span>}
+
+        {/* 문자별 오답 통계 */}
+        <div className="grid grid-cols-4 md:grid-cols-6 gap-1">
+          {statRows.map((row) => (
+            <div key={row.char} className="flex justify-between px-1.5 py-0.5 rounded bg-white/5">
+              <span className="text-white">{row.char}</span>
+              <span className={row.errorRate > 1 - UNLOCK_ACCURACY ? 'text-rose-400' : 'text-slate-400'}>
+                {row.attempts > 0 ? `${Math.round(row.errorRate * 100)}%` : '—'}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default KochTrainer;
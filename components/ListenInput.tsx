@@ -0,0 +1,171 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Ear, Mic, Square, Upload } from 'lucide-react';
+import { PlaybackEvent } from '../types';
+import { CwListener } from '../services/cwListener';
+import { CwDecoder } from '../utils/cwDecoder';
+import { KeyedElement, KeyedTimeline } from '../utils/keyer';
+import AlphabetSelect from './AlphabetSelect';
+import { MorseAlphabet, findQCodes } from '../utils/morseMapping';
+
+interface ListenInputProps {
+  audioCtxRef: React.MutableRefObject<AudioContext | null>;
+  startTimeRef: React.MutableRefObject<number>;
+  onDecodedEvents: (events: PlaybackEvent[]) => void; // 비주얼라이저 타임라인용
+}
+
+type ListenSource = 'mic' | 'file';
+
+const ListenInput: React.FC<ListenInputProps> = ({ audioCtxRef, startTimeRef, onDecodedEvents }) => {
+  const [source, setSource] = useState<ListenSource | null>(null); // null = 듣고 있지 않음
+  const [alphabet, setAlphabet] = useState<MorseAlphabet>('latin');
+  const [decodedText, setDecodedText] = useState('');
+  const [pendingCode, setPendingCode] = useState('');
+  const [frequency, setFrequency] = useState<number | null>(null);
+  const [wpm, setWpm] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const listenerRef = useRef(new CwListener());
+  const decoderRef = useRef<CwDecoder | null>(null);
+  const timelineRef = useRef(new KeyedTimeline());
+  const alphabetRef = useRef(alphabet);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  alphabetRef.current = alphabet;
+
+  useEffect(() => {
+    decoderRef.current?.setAlphabet(alphabet);
+  }, [alphabet]);
+
+  useEffect(() => () => listenerRef.current.stop(), []);
+
+  // 해독 결과를 화면과 타임라인에 반영 (요소 시각은 입력 시작 = 0 기준)
+  const publish = (decoder: CwDecoder, elements: KeyedElement[]) => {
+    const timeline = timelineRef.current;
+    const toneFrequency = decoder.getFrequency() ?? 0;
+    elements.forEach((element) => onDecodedEvents(timeline.add(element, 0, toneFrequency)));
+    const pending = decoder.getPendingCode();
+    if (!pending && timeline.hasPendingLetter()) onDecodedEvents(timeline.confirmLetter(alphabetRef.current));
+    setPendingCode(pending);
+    setDecodedText(decoder.getText());
+    setFrequency(decoder.getFrequency());
+    if (decoder.getElements().length > 0) setWpm(decoder.getWpm());
+  };
+
+  const handleSamples = (samples: Float32Array, sampleRate: number) => {
+    if (!decoderRef.current) decoderRef.current = new CwDecoder({ sampleRate, alphabet: alphabetRef.current });
+    const decoder = decoderRef.current;
+    publish(decoder, decoder.process(samples));
+  };
+
+  const reset = () => {
+    decoderRef.current = null;
+    timelineRef.current.clear();
+    onDecodedEvents([]);
+    setDecodedText('');
+    setPendingCode('');
+    setFrequency(null);
+    setWpm(null);
+    setError(null);
+  };
+
+  const begin = (ctx: AudioContext, next: ListenSource) => {
+    audioCtxRef.current = ctx;
+    startTimeRef.current = ctx.currentTime;
+    setSource(next);
+  };
+
+  const stop = () => {
+    listenerRef.current.stop();
+    audioCtxRef.current = null;
+    setSource(null);
+  };
+
+  const startMicrophone = async () => {
+    reset();
+    try {
+      begin(await listenerRef.current.startMicrophone(handleSamples), 'mic');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Microphone unavailable');
+    }
+  };
+
+  const startFile = async (file: File) => {
+    reset();
+    try {
+      const data = await file.arrayBuffer();
+      const ctx = await listenerRef.current.startFile(data, handleSamples, () => {
+        // 파일 끝: 마지막 글자까지 확정
+        const decoder = decoderRef.current;
+        if (decoder) publish(decoder, decoder.flush());
+        stop();
+      });
+      begin(ctx, 'file');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not decode audio file');
+    }
+  };
+
+  const buttonClass = 'px-3 py-1.5 rounded-full border border-white/20 bg-white/5 text-slate-200 flex items-center gap-1.5 hover:bg-white/10 disabled:opacity-40';
+
+  return (
+    <section className="text-xs font-mono text-slate-300">
+      <div className="bg-slate-900/70 border border-white/10 rounded-lg md:rounded-xl p-3 md:p-4 backdrop-blur-md flex flex-col gap-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <Ear className="w-4 h-4 text-sky-300" />
+          {source ? (
+            <button className={buttonClass} onClick={stop}>
+              <Square className="w-3.5 h-3.5" />
+              <span>Stop</span>
+            </button>
+          ) : (
+            <>
+              <button className={buttonClass} onClick={startMicrophone}>
+                <Mic className="w-3.5 h-3.5" />
+                <span>Microphone</span>
+              </button>
+              <button className={buttonClass} onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-3.5 h-3.5" />
+                <span>Audio file</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="audio/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) startFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </>
+          )}
+          <AlphabetSelect value={alphabet} onChange={setAlphabet} />
+          <span className="ml-auto text-slate-500">
+            {frequency ? `${frequency}Hz` : '—'} · {wpm ? `${Math.round(wpm)} WPM` : '—'}
+          </span>
+        </div>
+
+        {error && <span className="text-rose-400">{error}</span>}
+
+        <div className="flex items-start gap-2 min-h-[2rem]">
+          <span className="text-sm text-white break-all flex-1">
+            {decodedText}
+            <span className="text-sky-300">{pendingCode}</span>
+          </span>
+          <button className="text-slate-500 hover:text-slate-200" onClick={reset} disabled={!!source}>
+            clear
+          </button>
+        </div>
+
+        {findQCodes(decodedText).map(({ code, meaning }) => (
+          <span key={code} className="text-slate-400">
+            <span className="text-sky-300">{code}</span> {meaning}
+          </span>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default ListenInput;
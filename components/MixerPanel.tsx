@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { ChevronDown, SlidersVertical } from 'lucide-react';
+import { MixerChannel, MixerChannelId, MixerSettings } from '../types';
+import { MIXER_CHANNELS, resolveMixerGains } from '../utils/mixer';
+
+interface MixerPanelProps {
+  value: MixerSettings;
+  onChange: (mixer: MixerSettings) => void;
+  presetLabel: string; // 이 값이 저장되는 프리셋 이름
+  error?: string | null; // 저장소 실패
+}
+
+// 재생 중에도 바로 반영되므로 disabled 없음
+const MixerPanel: React.FC<MixerPanelProps> = ({ value, onChange, presetLabel, error }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const gains = resolveMixerGains(value);
+
+  const updateChannel = (id: MixerChannelId, patch: Partial<MixerChannel>) =>
+    onChange({ ...value, [id]: { ...value[id], ...patch } });
+
+  const toggleClass = (active: boolean, activeClass: string) =>
+    `w-6 py-0.5 rounded border text-center ${active ? activeClass : 'bg-white/5 border-white/20 text-slate-400 hover:bg-white/10'}`;
+
+  const levelSlider = (level: number, onLevel: (level: number) => void) => (
+    <input type="range" min={0} max={1} step={0.01} value={level} onChange={(e) => onLevel(Number(e.target.value))} />
+  );
+
+  return (
+    <section className="text-xs font-mono text-slate-300">
+      <div className="bg-slate-900/70 border border-white/10 rounded-lg md:rounded-xl p-3 md:p-4 backdrop-blur-md flex flex-col gap-3">
+        <button className="flex items-center gap-2 text-slate-400 hover:text-slate-200" onClick={() => setIsOpen(!isOpen)}>
+          <SlidersVertical className="w-4 h-4" />
+          <span className="uppercase tracking-widest">Mixer</span>
+          <span className="text-slate-500 normal-case truncate">· {presetLabel}</span>
+          <ChevronDown className={`w-4 h-4 ml-auto transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+
+        {isOpen && (
+          <div className="flex flex-col gap-2">
+            {MIXER_CHANNELS.map(({ id, label }) => {
+              const channel = value[id];
+              return (
+                <div key={id} className="flex items-center gap-2">
+                  <span className="text-slate-500 w-14">{label}</span>
+                  {levelSlider(channel.level, (level) => updateChannel(id, { level }))}
+                  {/* 뮤트·솔로로 실제로 꺼졌으면 흐리게 */}
+                  <span className={`w-10 text-right ${gains[id] > 0 ? 'text-white' : 'text-slate-600'}`}>
+                    {Math.round(channel.level * 100)}%
+                  </span>
+                  <button
+                    className={toggleClass(channel.mute, 'bg-rose-500/40 border-rose-300 text-white')}
+                    onClick={() => updateChannel(id, { mute: !channel.mute })}
+                    title={`Mute ${label.toLowerCase()}`}
+                  >
+                    M
+                  </button>
+                  <button
+                    className={toggleClass(channel.solo, 'bg-amber-500/40 border-amber-300 text-white')}
+                    onClick={() => updateChannel(id, { solo: !channel.solo })}
+                    title={`Solo ${label.toLowerCase()}`}
+                  >
+                    S
+                  </button>
+                </div>
+              );
+            })}
+            <div className="flex items-center gap-2 pt-2 border-t border-white/10">
+              <span className="text-slate-500 w-14">Master</span>
+              {levelSlider(value.master, (master) => onChange({ ...value, master }))}
+              <span className="w-10 text-right text-white">{Math.round(value.master * 100)}%</span>
+            </div>
+          </div>
+        )}
+
+        {error && <span className="text-rose-400">{error}</span>}
+      </div>
+    </section>
+  );
+};
+
+export default MixerPanel;
@@ -0,0 +1,90 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { PlaybackEvent } from '../types';
+import { isProsign, textToMorse } from '../utils/morseMapping';
+import { PlayingPosition, getPlayingPosition, getSourceSpans } from '../utils/timeline';
+
+interface ReadAlongPanelProps {
+  text: string; // events를 만든 원문 (sourceIndex 기준)
+  events: PlaybackEvent[];
+  isPlaying: boolean;
+  audioCtxRef: React.MutableRefObject<AudioContext | null>;
+  startTimeRef: React.MutableRefObject<number>; // 타임라인 0초가 울리는 audioCtx 시각
+  onSeek: (time: number) => void; // 문자를 누르면 그 문자의 시작 시각으로
+}
+
+// 和文 전환 신호는 다음 문자와 위치가 같으므로 문자까지 키로
+const spanKey = (index: number, char: string) => `${index}:${char}`;
+
+const samePosition = (a: PlayingPosition | null, b: PlayingPosition | null) =>
+  a === b ||
+  (!!a && !!b && a.sourceIndex === b.sourceIndex && a.sourceChar === b.sourceChar && a.partIndex === b.partIndex);
+
+// 읽기 패널: 원문 문자마다 부호를 아래에 두고, 재생 중인 문자·부분을 강조
+// 재생 위치는 이 컴포넌트 안에서만 프레임마다 확인하고, 바뀔 때만 다시 그린다
+const ReadAlongPanel: React.FC<ReadAlongPanelProps> = ({ text, events, isPlaying, audioCtxRef, startTimeRef, onSeek }) => {
+  const [playingPosition, setPlayingPosition] = useState<PlayingPosition | null>(null);
+
+  const chars = useMemo(() => textToMorse(text).chars, [text]);
+  const spanStarts = useMemo(
+    () => new Map(getSourceSpans(events).map(span => [spanKey(span.index, span.char), span.startTime])),
+    [events]
+  );
+
+  useEffect(() => {
+    if (!isPlaying) {
+      setPlayingPosition(null);
+      return;
+    }
+
+    let frameId: number;
+    const update = () => {
+      if (audioCtxRef.current) {
+        const next = getPlayingPosition(events, audioCtxRef.current.currentTime - startTimeRef.current);
+        setPlayingPosition(prev => (samePosition(prev, next) ? prev : next));
+      }
+      frameId = requestAnimationFrame(update);
+    };
+    frameId = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frameId);
+  }, [isPlaying, events]);
+
+  if (chars.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap justify-center items-start gap-x-1 gap-y-2 font-mono bg-slate-900/70 border border-white/10 rounded-lg px-3 py-2">
+      {chars.map((span, i) => {
+        if (span.char === ' ') return <span key={i} className="w-3" />;
+
+        const isActive =
+          !!playingPosition && playingPosition.sourceIndex === span.index && playingPosition.sourceChar === span.char;
+        const startTime = spanStarts.get(spanKey(span.index, span.char));
+        const label = isProsign(span.char.toUpperCase()) ? (
+          <span className="overline">{span.char.slice(1, -1)}</span>
+        ) : (
+          span.char
+        );
+        return (
+          <button
+            key={i}
+            className={`flex flex-col items-center px-1.5 py-0.5 rounded transition-colors ${
+              isActive ? 'bg-sky-500/30 text-white' : 'bg-white/5 hover:bg-white/15 text-slate-300'
+            } ${span.length === 0 ? 'opacity-60' : ''}`}
+            onClick={() => startTime !== undefined && onSeek(startTime)}
+          >
+            <span className="text-sm">{label}</span>
+            <span className="text-[10px] tracking-wider whitespace-nowrap">
+              {span.parts.map((part, p) => (
+                <span key={p} className={isActive && playingPosition.partIndex === p ? 'text-sky-300' : 'text-slate-500'}>
+                  {p > 0 && ' '}
+                  {part.code}
+                </span>
+              ))}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ReadAlongPanel;
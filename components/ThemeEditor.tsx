@@ -0,0 +1,256 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, Download, Save, SlidersHorizontal, Upload } from 'lucide-react';
+import { AccompanimentStyle, InstrumentType, PitchMapping, PresetTheme } from '../types';
+import { BASE_FREQUENCY_RANGE, MAX_MOOD_LENGTH, TEMPO_RANGE, WAVEFORMS } from '../utils/themeValidation';
+import { DEFAULT_SIDETONE_RISE_TIME, SIDETONE_RISE_RANGE, getVoice, listVoices } from '../utils/voices';
+import { ACCOMPANIMENT_STYLES, DEFAULT_ACCOMPANIMENT } from '../utils/accompaniment';
+import { DEFAULT_PITCH_MAPPING, PITCH_MAPPINGS } from '../utils/pitchMapping';
+
+interface ThemeEditorProps {
+  value: PresetTheme; // 지금 재생에 쓰이는 테마 (자동 테마면 자동으로 고른 값)
+  onChange: (patch: Partial<PresetTheme>) => void;
+  onSave: (label: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  presetError?: string | null; // 가져오기·저장 실패
+  disabled?: boolean;
+}
+
+// 기준음에서의 반음 거리 → 음계 표기
+const SEMITONE_LABELS = ['1', '♭2', '2', '♭3', '3', '4', '♯4', '5', '♭6', '6', '♭7', '7'];
+
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ value, onChange, onSave, onExport, onImport, presetError, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const usesThemeWaveform = getVoice(value.instrument).layers.some(layer => layer.kind === 'oscillator' && layer.waveform === 'theme');
+
+  // 마지막 한 음은 끌 수 없음 (빈 스케일이면 음을 고를 수 없으므로)
+  const toggleStep = (step: number) => {
+    const scale = value.scale.includes(step) ? value.scale.filter(s => s !== step) : [...value.scale, step].sort((a, b) => a - b);
+    if (scale.length > 0) onChange({ scale });
+  };
+
+  const save = () => {
+    if (!presetName.trim()) return;
+    onSave(presetName.trim());
+    setPresetName('');
+  };
+
+  const buttonClass = 'px-3 py-1 rounded-full border border-white/20 bg-white/5 text-slate-200 flex items-center gap-1.5 hover:bg-white/10 disabled:opacity-40';
+  const fieldClass = 'px-2 py-0.5 rounded border border-white/20 bg-slate-900 text-slate-200 focus:outline-none disabled:opacity-40';
+
+  return (
+    <section className="text-xs font-mono text-slate-300">
+      <div className="bg-slate-900/70 border border-white/10 rounded-lg md:rounded-xl p-3 md:p-4 backdrop-blur-md flex flex-col gap-3">
+        <button className="flex items-center gap-2 text-slate-400 hover:text-slate-200" onClick={() => setIsOpen(!isOpen)}>
+          <SlidersHorizontal className="w-4 h-4" />
+          <span className="uppercase tracking-widest">Theme editor</span>
+          <ChevronDown className={`w-4 h-4 ml-auto transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+        </button>
+
+        {isOpen && (
+          <>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2">
+                <span className="text-slate-500">Mood</span>
+                <input
+                  className={`${fieldClass} w-32`}
+                  value={value.mood}
+                  maxLength={MAX_MOOD_LENGTH}
+                  onChange={(e) => onChange({ mood: e.target.value })}
+                  disabled={disabled}
+                />
+              </label>
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="color"
+                  value={value.primaryColor}
+                  onChange={(e) => onChange({ primaryColor: e.target.value })}
+                  disabled={disabled}
+                />
+                <span className="text-slate-500">Primary</span>
+              </label>
+              <label className="flex items-center gap-1.5">
+                <input
+                  type="color"
+                  value={value.secondaryColor}
+                  onChange={(e) => onChange({ secondaryColor: e.target.value })}
+                  disabled={disabled}
+                />
+                <span className="text-slate-500">Secondary</span>
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2">
+                <span className="text-slate-500">Instrument</span>
+                <select
+                  className={fieldClass}
+                  value={value.instrument}
+                  onChange={(e) => onChange({ instrument: e.target.value as InstrumentType })}
+                  disabled={disabled}
+                >
+                  {listVoices().map(({ id, label }) => (
+                    <option key={id} value={id}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {/* 사이드톤은 키 클릭과 또렷함 사이에서 상승 시간을 고름 */}
+              {value.instrument === 'sidetone' && (
+                <label className="flex items-center gap-2">
+                  <span className="text-slate-500">Rise</span>
+                  <input
+                    type="range"
+                    min={SIDETONE_RISE_RANGE[0] * 1000}
+                    max={SIDETONE_RISE_RANGE[1] * 1000}
+                    step={0.5}
+                    value={(value.sidetoneRiseTime ?? DEFAULT_SIDETONE_RISE_TIME) * 1000}
+                    onChange={(e) => onChange({ sidetoneRiseTime: Number(e.target.value) / 1000 })}
+                    disabled={disabled}
+                  />
+                  <span className="text-white w-12">{((value.sidetoneRiseTime ?? DEFAULT_SIDETONE_RISE_TIME) * 1000).toFixed(1)}ms</span>
+                </label>
+              )}
+              {/* 파형은 테마 파형을 쓰는 음색(Synth)에서만 */}
+              <label className="flex items-center gap-2">
+                <span className="text-slate-500">Waveform</span>
+                <select
+                  className={fieldClass}
+                  value={value.waveform}
+                  onChange={(e) => onChange({ waveform: e.target.value as OscillatorType })}
+                  disabled={disabled || !usesThemeWaveform}
+                >
+                  {WAVEFORMS.map((waveform) => (
+                    <option key={waveform} value={waveform}>
+                      {waveform}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="text-slate-500">Accompaniment</span>
+                <select
+                  className={fieldClass}
+                  value={value.accompaniment ?? DEFAULT_ACCOMPANIMENT}
+                  onChange={(e) => onChange({ accompaniment: e.target.value as AccompanimentStyle })}
+                  disabled={disabled}
+                >
+                  {ACCOMPANIMENT_STYLES.map(({ id, label }) => (
+                    <option key={id} value={id}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="text-slate-500">Pitch</span>
+                <select
+                  className={fieldClass}
+                  value={value.pitchMapping ?? DEFAULT_PITCH_MAPPING}
+                  onChange={(e) => onChange({ pitchMapping: e.target.value as PitchMapping })}
+                  disabled={disabled}
+                >
+                  {PITCH_MAPPINGS.map(({ id, label }) => (
+                    <option key={id} value={id}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2">
+                <span className="text-slate-500">Base</span>
+                <input
+                  type="range"
+                  min={BASE_FREQUENCY_RANGE[0]}
+                  max={BASE_FREQUENCY_RANGE[1]}
+                  value={value.baseFrequency}
+                  onChange={(e) => onChange({ baseFrequency: Number(e.target.value) })}
+                  disabled={disabled}
+                />
+                <span className="text-white w-14">{Math.round(value.baseFrequency)}Hz</span>
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="text-slate-500">Tempo</span>
+                <input
+                  type="range"
+                  min={TEMPO_RANGE[0]}
+                  max={TEMPO_RANGE[1]}
+                  step={0.01}
+                  value={value.tempoMultiplier}
+                  onChange={(e) => onChange({ tempoMultiplier: Number(e.target.value) })}
+                  disabled={disabled}
+                />
+                <span className="text-white w-12">×{value.tempoMultiplier.toFixed(2)}</span>
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-1">
+              <span className="text-slate-500 mr-1">Scale</span>
+              {SEMITONE_LABELS.map((label, step) => (
+                <label
+                  key={step}
+                  className={`w-8 text-center py-0.5 rounded border cursor-pointer ${
+                    value.scale.includes(step) ? 'bg-sky-500/40 border-sky-300 text-white' : 'bg-white/5 border-white/20 text-slate-400'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    className="hidden"
+                    checked={value.scale.includes(step)}
+                    onChange={() => toggleStep(step)}
+                    disabled={disabled}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                className={`${fieldClass} w-40`}
+                placeholder="Preset name"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && save()}
+              />
+              <button className={buttonClass} onClick={save} disabled={!presetName.trim()}>
+                <Save className="w-3.5 h-3.5" />
+                <span>Save preset</span>
+              </button>
+              <button className={`${buttonClass} ml-auto`} onClick={onExport}>
+                <Download className="w-3.5 h-3.5" />
+                <span>Export</span>
+              </button>
+              <button className={buttonClass} onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-3.5 h-3.5" />
+                <span>Import</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </>
+        )}
+
+        {/* 접혀 있어도 보이게 (저장소 오류는 편집기 밖의 프리셋 버튼에서도 생김) */}
+        {presetError && <span className="text-rose-400">{presetError}</span>}
+      </div>
+    </section>
+  );
+};
+
+export default ThemeEditor;
@@ -1,12 +1,17 @@
 import React, { useRef, useEffect } from 'react';
-import { PlaybackEvent, ThemeConfig, MorseSymbol } from '../types';
+import { PlaybackEvent, ThemeConfig, MorseSymbol, GrooveSettings } from '../types';
+import { beatLength } from '../utils/groove';
+import { isProsign } from '../utils/morseMapping';
 
 interface VisualizerProps {
   isPlaying: boolean;
   events: PlaybackEvent[];
   theme: ThemeConfig;
   audioCtxRef: React.MutableRefObject<AudioContext | null>;
-  startTimeRef: React.MutableRefObject<number>;
+  startTimeRef: React.MutableRefObject<number>; // 타임라인 0초가 울리는 audioCtx 시각
+  onSeek?: (time: number) => void; // 타임라인 클릭 시 해당 시각(초)으로 이동
+  showLabels?: boolean; // 재생 중인 문자 표시 (연습 모드에서는 정답이 보이므로 끔)
+  groove?: GrooveSettings; // 있으면 박선·마디선을 그림 (그루브 모드 타임라인)
 }
 
 // Particle System Types
@@ -29,6 +34,9 @@ interface Star {
     speed: number;
 }
 
+// 타임라인 스크롤 속도 — 창 크기와 무관하게 고정 (모스 크기가 창에 따라 안 바뀜)
+const TIMELINE_SPEED = 220; // px/s
+
 // 문자별 모스 블록 색상 팔레트 (모스 코드가 바뀔 때마다 색이 바뀌도록)
 const NOTE_PALETTE = [
   '#38bdf8', '#a78bfa', '#f472b6', '#34d399', '#fbbf24',
@@ -36,7 +44,7 @@ const NOTE_PALETTE = [
   '#22d3ee', '#818cf8', '#f97316', '#4ade80', '#e879f9',
 ];
 
-const Visualizer: React.FC<VisualizerProps> = ({ isPlaying, events, theme, audioCtxRef, startTimeRef }) => {
+const Visualizer: React.FC<VisualizerProps> = ({ isPlaying, events, theme, audioCtxRef, startTimeRef, onSeek, showLabels = true, groove }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>();
   const particlesRef = useRef<Particle[]>([]);
@@ -113,13 +121,9 @@ const Visualizer: React.FC<VisualizerProps> = ({ isPlaying, events, theme, audio
       ctx.globalAlpha = 1.0;
 
       // 2. Calculate Timing
-      let currentTime = 0;
-      if (isPlaying && audioCtxRef.current) {
-         currentTime = audioCtxRef.current.currentTime - startTimeRef.current - 0.1; 
-      }
+      const currentTime = getTimelineTime();
 
-      // 창 크기와 무관하게 고정 — 모스 크기가 창에 따라 안 바뀜
-      const speed = 220; // 고정 px/s
+      const speed = TIMELINE_SPEED;
       const GAP_PX = 14; // 심볼 사이 간격 (겹침 방지)
       const BAR_HEIGHT = 10; // 대시 높이 (길쭉한 선)
       const DOT_RADIUS = 8; // 점 반지름 고정
@@ -130,6 +134,31 @@ const Visualizer: React.FC<VisualizerProps> = ({ isPlaying, events, theme, audio
       const labelRadius = Math.min(64, height * 0.16);
       const labelFontSize = Math.min(36, Math.max(20, height * 0.11));
 
+      // 박선·마디선 (그루브 모드) — 박 머리는 스윙하지 않으므로 박 길이의 배수 위치
+      if (groove && events.length > 0) {
+        const beat = beatLength(groove);
+        const last = events[events.length - 1];
+        const total = last.startTime + last.duration;
+        const firstBeat = Math.max(0, Math.ceil((currentTime - playheadX / speed) / beat));
+        const lastBeat = Math.min(Math.floor(total / beat + 1e-9), Math.floor((currentTime + (width - playheadX) / speed) / beat));
+        ctx.font = '10px monospace';
+        ctx.textAlign = 'left';
+        for (let index = firstBeat; index <= lastBeat; index++) {
+          const x = playheadX + (index * beat - currentTime) * speed;
+          const isBar = index % groove.beatsPerBar === 0;
+          ctx.strokeStyle = isBar ? 'rgba(255,255,255,0.28)' : 'rgba(255,255,255,0.08)';
+          ctx.lineWidth = isBar ? 1.5 : 1;
+          ctx.beginPath();
+          ctx.moveTo(x, isBar ? height * 0.08 : trackY - 28);
+          ctx.lineTo(x, isBar ? height * 0.92 : trackY + 28);
+          ctx.stroke();
+          if (isBar) {
+            ctx.fillStyle = 'rgba(255,255,255,0.35)';
+            ctx.fillText(String(index / groove.beatsPerBar + 1), x + 4, height * 0.08 + 10);
+          }
+        }
+      }
+
       // Enable additive blending for "glow" look
       ctx.globalCompositeOperation = 'lighter';
 
@@ -198,9 +227,11 @@ const Visualizer: React.FC<VisualizerProps> = ({ isPlaying, events, theme, audio
 
       // 5. Draw current character label (모스 트랙보다 위에)
       const activeIndex = lastActiveEventIndex.current;
-      if (activeIndex >= 0 && activeIndex < events.length) {
+      if (showLabels && activeIndex >= 0 && activeIndex < events.length) {
         const active = events[activeIndex];
-        const charLabel = active.char ?? '';
+        // 원문 문자(한글 음절 등)를 크게, 지금 울리는 자모·가나가 다르면 그 아래 작게
+        const charLabel = (active.sourceChar ?? active.char ?? '').toUpperCase();
+        const partLabel = active.char && active.char !== charLabel ? active.char : '';
         if (charLabel) {
           ctx.save();
           ctx.globalCompositeOperation = 'lighter';
@@ -225,7 +256,21 @@ const Visualizer: React.FC<VisualizerProps> = ({ isPlaying, events, theme, audio
           ctx.shadowColor = theme.primaryColor;
           ctx.shadowBlur = 25;
           ctx.fillStyle = '#e5f4ff';
-          ctx.fillText(charLabel, playheadX, labelY);
+          if (isProsign(charLabel)) {
+            // Prosign은 한 글자처럼: 꺾쇠 없이 윗줄을 그어 표시 (S̅K̅)
+            const text = charLabel.slice(1, -1);
+            const halfWidth = ctx.measureText(text).width / 2;
+            ctx.fillText(text, playheadX, labelY);
+            ctx.fillRect(playheadX - halfWidth, labelY - labelFontSize * 0.62, halfWidth * 2, Math.max(2, labelFontSize * 0.07));
+          } else {
+            ctx.fillText(charLabel, playheadX, labelY);
+          }
+          if (partLabel) {
+            ctx.font = `500 ${labelFontSize * 0.45}px "Space Mono", system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif`;
+            ctx.shadowBlur = 10;
+            ctx.fillStyle = 'rgba(229,244,255,0.75)';
+            ctx.fillText(partLabel, playheadX, labelY + labelFontSize * 0.9);
+          }
           ctx.restore();
         }
       }
@@ -256,7 +301,27 @@ const Visualizer: React.FC<VisualizerProps> = ({ isPlaying, events, theme, audio
       window.removeEventListener('resize', updateSize);
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
-  }, [isPlaying, events, theme, audioCtxRef, startTimeRef]);
+  }, [isPlaying, events, theme, audioCtxRef, startTimeRef, showLabels, groove]);
+
+  // 현재 재생 위치 (타임라인 기준 초, 정지 중에는 0)
+  const getTimelineTime = () => {
+    if (isPlaying && audioCtxRef.current) {
+      return audioCtxRef.current.currentTime - startTimeRef.current;
+    }
+    return 0;
+  };
+
+  // 클릭한 x 위치를 플레이헤드 기준 시간으로 환산
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !onSeek) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    const time = getTimelineTime() + (x - rect.width / 2) / TIMELINE_SPEED;
+    const last = events[events.length - 1];
+    const total = last ? last.startTime + last.duration : 0;
+    onSeek(Math.min(Math.max(time, 0), total));
+  };
 
   // Particle Logic
   const spawnParticles = (x: number, y: number, color: string, glowColor: string, count: number = 8) => {
@@ -328,6 +393,7 @@ const Visualizer: React.FC<VisualizerProps> = ({ isPlaying, events, theme, audio
     <div
       className="relative w-full h-full shadow-[0_0_60px_rgba(15,23,42,0.9)] overflow-hidden"
       onMouseMove={handleMouseMove}
+      onClick={handleClick}
     >
         {/* Vignette Overlay for cinematic feel */}
         <div className="absolute inset-0 pointer-events-none bg-[radial-gradient(circle_at_center,transparent_0%,rgba(0,0,0,0.4)_100%)] z-10"></div>
@@ -1,93 +1,171 @@
-import { MorseSymbol, PlaybackEvent, ThemeConfig, InstrumentType } from '../types';
+import { MorseSymbol, PlaybackEvent, ThemeConfig, InstrumentType, LoopOptions, PadNote, MixerSettings } from '../types';
 import { textToMorse } from '../utils/morseMapping';
+import { buildAccompaniment, buildChordSections, ChordSection, maxAccompanimentNote } from '../utils/accompaniment';
+import { computeTimingUnits, resolveTiming } from '../utils/morseTiming';
+import { getThemeVoice } from '../utils/voices';
+import { buildPitchTokens, createPitchStrategy } from '../utils/pitchMapping';
+import { ceilToBar, ceilToBeat, gridTime, quantizeUnits, secondsToSteps } from '../utils/groove';
+import { DEFAULT_MIXER, resolveMixerGains } from '../utils/mixer';
+import { playVoice, scheduleRamp } from './voiceSynth';
+import { EffectsBus } from './effectsBus';
+
+type NoteEvent = PlaybackEvent & { type: 'note'; frequency: number };
+
+const NO_LOOP: LoopOptions = { repeatCount: 1, gap: 0 };
+
+// Look-ahead 스케줄러: SCHEDULER_INTERVAL마다 깨어나 LOOKAHEAD 앞까지만 노드를 만든다
+// → 텍스트 길이와 상관없이 동시에 존재하는 노드 수와 시작 지연이 일정
+const SCHEDULER_INTERVAL = 0.025; // s
+const LOOKAHEAD = 0.3; // s
+// 백그라운드 탭에서는 브라우저가 타이머를 약 1초 간격으로 늦추므로, 깨어나기 전에 예약이 바닥나지 않게 넓힌다
+const HIDDEN_LOOKAHEAD = 2.5; // s
+
+// 정렬된 events에서 startTime >= time 인 첫 인덱스
+const lowerBound = (events: PlaybackEvent[], time: number): number => {
+  let lo = 0;
+  let hi = events.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (events[mid].startTime < time) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+const isNoteEvent = (event: PlaybackEvent): event is NoteEvent =>
+  event.type === 'note' && !!event.frequency;
+
+interface AudioBuses {
+  masterGain: GainNode;
+  melodyGain: GainNode;
+  padGain: GainNode; // 반주 페이드인·아웃 (0~1)
+  padLevel: GainNode; // 믹서의 반주 레벨
+  effects: EffectsBus;
+}
+
+// 믹서 값을 바꿀 때 gain이 따라가는 시간 상수 (클릭 방지)
+const MIXER_SMOOTHING = 0.02; // s
+
+// 딜레이를 템포에 맞추는 기준 (점 길이, 초)
+const effectsUnit = (theme: ThemeConfig) => computeTimingUnits(resolveTiming(theme)).dot;
+
+// 원문 문자마다 좌우 위치가 이만큼(라디안) 돌아감 — 사인 곡선을 따라 좌우를 오감
+const PAN_STEP = 1.1;
+
+// 실시간 재생과 오프라인 렌더링이 같은 믹스 구조를 쓰도록 버스 생성을 분리
+function createBuses(ctx: BaseAudioContext, mixer: MixerSettings): AudioBuses {
+  const gains = resolveMixerGains(mixer);
+
+  // 마스터 끝단 리미터: 톱니파처럼 큰 음색이 겹쳐도 클리핑되지 않게 -3dB 위를 강하게 누름
+  const limiter = ctx.createDynamicsCompressor();
+  limiter.threshold.value = -3;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.25;
+  limiter.connect(ctx.destination);
+
+  // Master Gain
+  const masterGain = ctx.createGain();
+  masterGain.gain.value = gains.master;
+  masterGain.connect(limiter);
+
+  // Bus for Melody
+  const melodyGain = ctx.createGain();
+  melodyGain.gain.value = gains.melody;
+
+  // Bus for Pad (Accompaniment) — 페이드용 gain 뒤에 믹서 레벨
+  const padGain = ctx.createGain();
+  padGain.gain.value = 1;
+  const padLevel = ctx.createGain();
+  padLevel.gain.value = gains.pad;
+  padGain.connect(padLevel);
+
+  // 멜로디·반주 모두 이펙트 버스를 거침 (테마에 이펙트가 없으면 직통과 같음)
+  const effects = new EffectsBus(ctx, masterGain);
+  melodyGain.connect(effects.input);
+  padLevel.connect(effects.input);
+
+  return { masterGain, melodyGain, padGain, padLevel, effects };
+}
 
 export class AudioEngine {
   private audioCtx: AudioContext | null = null;
   private masterGain: GainNode | null = null;
   private melodyGain: GainNode | null = null;
   private padGain: GainNode | null = null;
-  
-  // Effects
-  private delayNode: DelayNode | null = null;
-  private feedbackGain: GainNode | null = null;
+  private padLevel: GainNode | null = null;
+  private effects: EffectsBus | null = null;
+  private mixer: MixerSettings = DEFAULT_MIXER;
 
-  private padOscillators: OscillatorNode[] = [];
+  // 예약됐거나 울리고 있는 오실레이터 — 끝난 것은 스케줄러가 매번 정리
+  private activeNodes: { osc: AudioScheduledSourceNode; endTime: number; isPad: boolean }[] = [];
 
   private events: PlaybackEvent[] = [];
+  private chordSections: ChordSection[] = []; // 재생 중인 타임라인의 반주 화음 구간
   private isPlaying: boolean = false;
+  private isPaused: boolean = false;
   private timerID: number | null = null;
-  
-  // Timing constants (in seconds) — 전체 템포 조금 더 빠르게
-  private readonly DOT_TIME = 0.12; 
+  private schedulerID: number | null = null;
+
+  // 재생 중인 타임라인 상태 (일시정지·탐색 시 다시 스케줄하기 위해 보관)
+  private playbackTheme: ThemeConfig | null = null;
+  private loop: LoopOptions = NO_LOOP;
+  private loopOrigin = 0; // 첫 회차 타임라인 0초가 울리는 audioCtx 시각
+  private scheduledUntil = 0; // 반복 전체 기준 시각 — 여기 전에 시작하는 음은 모두 예약됨
+  private padStopped = false; // 마무리 페이드아웃 이후에는 반주를 더 예약하지 않음
+  private onComplete: (() => void) | null = null;
+
+  // 키 입력 모드: 누르고 있는 동안 울리는 톤
+  private keyTone: { gain: GainNode; oscillators: AudioScheduledSourceNode[]; release: number } | null = null;
 
   constructor() {}
 
   private initContext() {
     if (!this.audioCtx) {
       this.audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      
-      // Master Gain
-      this.masterGain = this.audioCtx.createGain();
-      this.masterGain.gain.value = 0.6;
-      this.masterGain.connect(this.audioCtx.destination);
-
-      // Bus for Melody
-      this.melodyGain = this.audioCtx.createGain();
-      this.melodyGain.gain.value = 0.5;
-
-      // Bus for Pad (Accompaniment)
-      this.padGain = this.audioCtx.createGain();
-      this.padGain.gain.value = 0.1;
-
-      // 멜로디는 에코 없이 직통만 → 두 번 들리는 현상 제거, 모스가 정확히 들리도록
-      this.melodyGain.connect(this.masterGain);
-      
-      // Pad Routing
-      this.padGain.connect(this.masterGain);
+      const buses = createBuses(this.audioCtx, this.mixer);
+      this.masterGain = buses.masterGain;
+      this.melodyGain = buses.melodyGain;
+      this.padGain = buses.padGain;
+      this.padLevel = buses.padLevel;
+      this.effects = buses.effects;
     }
     if (this.audioCtx.state === 'suspended') {
       this.audioCtx.resume();
     }
   }
 
-  // 반주: 재생 전체 구간에 미리 스케줄 — setInterval 없이 계속 재생
-  private schedulePadArpeggio(theme: ThemeConfig, startTime: number, totalDuration: number) {
-    if (!this.audioCtx || !this.padGain) return;
+  // 반주 음 하나를 스케줄 — startTime은 타임라인 0초의 컨텍스트 시각
+  private schedulePadNote(
+    ctx: BaseAudioContext,
+    padGain: GainNode,
+    note: PadNote,
+    startTime: number
+  ): OscillatorNode {
+    // 짧은 음(아르페지오·화음 스탭)은 길이에 맞춰 어택·릴리스를 줄임
+    const attack = Math.min(0.4, note.duration / 3);
+    const release = Math.min(1.2, note.duration / 2);
+    const velocity = note.velocity ?? 1;
+    const when = startTime + note.startTime;
+    const noteDuration = note.duration;
+    const freq = note.frequency;
 
-    this.stopDrone();
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.type = 'sine';
+    osc.frequency.value = freq;
+    osc.connect(gain);
+    gain.connect(padGain);
 
-    const scale = theme.scale && theme.scale.length > 0 ? theme.scale : [0, 2, 4, 7, 9];
-    const baseFreq = theme.baseFrequency * 0.5;
-    const arpeggioSemitones = [scale[0], scale[1], scale[2], scale[0] + 12, scale[2], scale[1]];
-    const attack = 0.4;
-    const release = 1.2;
-    const noteDuration = 1.7;
-    const intervalSec = 1.0;
-
-    this.padGain.gain.setValueAtTime(0.28, startTime);
-
-    for (let t = 0; t <= totalDuration + 2; t += intervalSec) {
-      const when = startTime + t;
-      const step = Math.floor(t / intervalSec) % arpeggioSemitones.length;
-      const semitone = arpeggioSemitones[step];
-      const freq = baseFreq * Math.pow(2, semitone / 12);
-
-      const osc = this.audioCtx.createOscillator();
-      const gain = this.audioCtx.createGain();
-      osc.type = 'sine';
-      osc.frequency.value = freq;
-      osc.connect(gain);
-      gain.connect(this.padGain);
-
-      osc.start(when);
-      gain.gain.setValueAtTime(0, when);
-      gain.gain.linearRampToValueAtTime(0.12, when + attack);
-      gain.gain.setValueAtTime(0.1, when + noteDuration - release);
-      gain.gain.linearRampToValueAtTime(0, when + noteDuration);
-      osc.stop(when + noteDuration + 0.1);
-
-      this.padOscillators.push(osc);
-    }
+    osc.start(when);
+    gain.gain.setValueAtTime(0, when);
+    gain.gain.linearRampToValueAtTime(0.12 * velocity, when + attack);
+    gain.gain.setValueAtTime(0.1 * velocity, when + noteDuration - release);
+    gain.gain.linearRampToValueAtTime(0, when + noteDuration);
+    osc.stop(when + noteDuration + 0.1);
+
+    return osc;
   }
 
   private stopDrone() {
@@ -97,297 +175,484 @@ export class AudioEngine {
       this.padGain.gain.setValueAtTime(this.padGain.gain.value, now);
       this.padGain.gain.linearRampToValueAtTime(0, now + 2.0);
     }
-    this.padOscillators.forEach(osc => {
+    this.padStopped = true;
+    this.activeNodes = this.activeNodes.filter(node => {
+      if (!node.isPad) return true;
       try {
-        osc.stop(this.audioCtx!.currentTime + 0.1);
+        node.osc.stop(this.audioCtx!.currentTime + 0.1);
       } catch (_) {}
+      return false;
     });
-    this.padOscillators = [];
   }
 
   public generateTimeline(text: string, theme: ThemeConfig): PlaybackEvent[] {
-    const { morse, decomposed } = textToMorse(text);
+    const { chars } = textToMorse(text);
     const events: PlaybackEvent[] = [];
     
-    const unitTime = this.DOT_TIME / theme.tempoMultiplier;
-    let currentTime = 0;
-
-    // Helper to get frequency from scale - 더 다이나믹하게 만들기
-    let charIndex = 0;
-    let noteSequence = 0; // 음표 순서로 패턴 생성
-    const getFrequency = (char: string) => {
-        const charCode = char.charCodeAt(0);
-        const pos = charIndex++;
-        noteSequence++;
-        
-        // 여러 요소를 조합한 해시로 더 복잡한 패턴
-        const hash1 = (charCode * 17 + pos * 31) % 1000;
-        const hash2 = (text.length * 7 + noteSequence * 13) % 1000;
-        const combinedHash = (hash1 + hash2) % 1000;
-        
-        // 스케일 인덱스를 더 다양하게 선택 (위치 기반 + 해시 기반)
-        const baseIndex = pos % theme.scale.length;
-        const hashIndex = combinedHash % theme.scale.length;
-        const scaleIndex = (baseIndex + hashIndex) % theme.scale.length;
-        const semitoneOffset = theme.scale[scaleIndex];
-        
-        // 옥타브 변화를 더 자주 발생 (약 30% 확률)
-        let octaveShift = 0;
-        if (combinedHash % 3 === 0) {
-          // 위/아래 옥타브 또는 2옥타브 위
-          const shiftType = combinedHash % 5;
-          if (shiftType === 0) octaveShift = 12;      // 한 옥타브 위
-          else if (shiftType === 1) octaveShift = -12; // 한 옥타브 아래
-          else if (shiftType === 2) octaveShift = 24;  // 두 옥타브 위 (드물게)
-        }
-        
-        // 추가로 반음 단위 미세 조정 (약 15% 확률로 ±1~3 반음)
-        let fineTune = 0;
-        if (combinedHash % 7 === 0) {
-          fineTune = ((combinedHash % 7) - 3); // -3 ~ +3 반음
-        }
-        
-        // fn = f0 * (a)^n where a is 2^(1/12)
-        return theme.baseFrequency * Math.pow(2, (semitoneOffset + octaveShift + fineTune) / 12);
+    // 점·대시·간격 길이 (WPM / Farnsworth / 비율 모델, 미지정 시 tempoMultiplier 기반)
+    const units = computeTimingUnits(resolveTiming(theme));
+
+    // 그루브 모드면 위치를 격자 칸 수로 세고(길이도 칸 수로 반올림), 시각은 스윙을 반영해 바꿈
+    const groove = theme.groove;
+    const lengths = groove ? quantizeUnits(units, groove) : units;
+    const toTime = (position: number) => (groove ? gridTime(groove, position) : position);
+    let position = 0;
+
+    // 지금 위치에서 span만큼 차지하는 이벤트를 추가하고 위치를 옮김
+    const pushEvent = (event: Omit<PlaybackEvent, 'startTime' | 'duration'>, span: number) => {
+      const startTime = toTime(position);
+      position += span;
+      events.push({ ...event, startTime, duration: groove ? toTime(position) - startTime : span } as PlaybackEvent);
     };
 
-    // Reconstruct simplified flow
-    decomposed.forEach(char => {
-        if (char === ' ') {
-             // Word space (7 units)
-             events.push({
+    // 음높이: 테마의 pitchMapping 전략이 단위(문자·자모·가나)마다 점·대시별 주파수를 정함
+    const pitchFor = createPitchStrategy(text, theme);
+    const pitchTokens = buildPitchTokens(chars);
+    let tokenIndex = 0;
+
+    // pan 이펙트: 원문 문자 순서대로 좌우를 오감 (단어 간격은 세지 않음)
+    const panWidth = theme.effects?.pan?.width ?? 0;
+    let panIndex = 0;
+
+    // 원문 문자 단위로: 단어 간격 또는 (자모·가나 등) 부분마다 음표
+    chars.forEach(span => {
+        if (span.char === ' ') {
+             // Word space (7 units, Farnsworth 시 늘어남) — 그루브 모드면 다음 단어가 박 머리에서 시작하도록 늘림
+             const wordGap = groove ? ceilToBeat(groove, position + lengths.wordGap) - position : lengths.wordGap;
+             pushEvent({
                 type: 'silence',
-                startTime: currentTime,
-                duration: unitTime * 7,
-                symbol: MorseSymbol.WORD_SPACE
-            });
-            currentTime += unitTime * 7;
-        } else {
-            // Get morse code for this char
-            const res = textToMorse(char); 
-            const code = res.morse.trim();
-            const freq = getFrequency(char);
+                symbol: MorseSymbol.WORD_SPACE,
+                sourceIndex: span.index,
+                sourceChar: span.char
+            }, wordGap);
+            return;
+        }
+
+        const pan = panWidth > 0 ? { pan: panWidth * Math.sin(panIndex * PAN_STEP) } : {};
+        panIndex++;
+
+        span.parts.forEach(({ token: char, code }) => {
+            const frequencies = pitchFor(pitchTokens[tokenIndex++]);
+            const source = { sourceIndex: span.index, sourceChar: span.char, ...pan };
 
             for (let i = 0; i < code.length; i++) {
                 const symbol = code[i];
                 if (symbol === '.') {
-                    events.push({
+                    pushEvent({
                         type: 'note',
-                        startTime: currentTime,
-                        duration: unitTime,
                         symbol: MorseSymbol.DOT,
-                        frequency: freq,
-                        char: char
-                    });
-                    currentTime += unitTime; // Note on
+                        frequency: frequencies[i],
+                        char: char,
+                        ...source
+                    }, lengths.dot); // Note on
                 } else if (symbol === '-') {
-                    events.push({
+                    pushEvent({
                         type: 'note',
-                        startTime: currentTime,
-                        duration: unitTime * 4,
                         symbol: MorseSymbol.DASH,
-                        frequency: freq,
-                        char: char
-                    });
-                    currentTime += unitTime * 4; // Note on
+                        frequency: frequencies[i],
+                        char: char,
+                        ...source
+                    }, lengths.dash); // Note on
                 }
 
                 // Inter-element gap (1 unit)
                 if (i < code.length - 1) {
-                    events.push({
-                        type: 'silence',
-                        startTime: currentTime,
-                        duration: unitTime,
-                        symbol: null
-                    });
-                    currentTime += unitTime;
+                    pushEvent({ type: 'silence', symbol: null }, lengths.elementGap);
                 }
             }
             
-            // Inter-character gap (3 units)
-            events.push({
-                type: 'silence',
-                startTime: currentTime,
-                duration: unitTime * 3,
-                symbol: MorseSymbol.SPACE
-            });
-            currentTime += unitTime * 3;
-        }
+            // Inter-character gap (3 units, Farnsworth 시 늘어남)
+            pushEvent({ type: 'silence', symbol: MorseSymbol.SPACE }, lengths.letterGap);
+        });
     });
 
-    // Add padding at end
-    events.push({
-        type: 'silence',
-        startTime: currentTime,
-        duration: 2.0,
-        symbol: null
-    });
+    // Add padding at end (그루브 모드면 마디 끝까지)
+    const padding = groove ? ceilToBar(groove, position + secondsToSteps(groove, 2.0)) - position : 2.0;
+    pushEvent({ type: 'silence', symbol: null }, padding);
 
     this.events = events;
     return events;
   }
 
+  // 악기 음색은 utils/voices.ts 레지스트리에서 (사이드톤처럼 monotone이면 멜로디 대신 기준 주파수)
   private playNoteWithInstrument(
-    ctx: AudioContext,
+    ctx: BaseAudioContext,
+    destination: AudioNode,
     theme: ThemeConfig,
-    event: PlaybackEvent & { type: 'note'; frequency: number },
+    event: NoteEvent,
     startTime: number,
     instrument: InstrumentType
-  ) {
-    const gain = ctx.createGain();
-    gain.connect(this.melodyGain!);
-    const noteStart = startTime + event.startTime;
-    const noteEnd = noteStart + event.duration;
-    const freq = event.frequency;
-
-    if (instrument === 'piano') {
-      const osc1 = ctx.createOscillator();
-      osc1.type = 'triangle';
-      osc1.frequency.value = freq;
-      const osc2 = ctx.createOscillator();
-      osc2.type = 'triangle';
-      osc2.frequency.value = freq * 2;
-      const harmGain = ctx.createGain();
-      harmGain.gain.value = 0.25;
-      osc1.connect(gain);
-      osc2.connect(harmGain);
-      harmGain.connect(gain);
-      const attack = 0.008;
-      const decay = Math.min(event.duration * 0.4, 0.15);
-      gain.gain.setValueAtTime(0, noteStart);
-      gain.gain.linearRampToValueAtTime(0.6, noteStart + attack);
-      gain.gain.linearRampToValueAtTime(0.2, noteStart + attack + decay);
-      gain.gain.linearRampToValueAtTime(0, noteEnd);
-      osc1.start(noteStart);
-      osc2.start(noteStart);
-      osc1.stop(noteEnd + 0.05);
-      osc2.stop(noteEnd + 0.05);
-      return;
+  ): AudioScheduledSourceNode[] {
+    const voice = getThemeVoice(instrument, theme);
+    let output = destination;
+    if (event.pan !== undefined) {
+      const panner = ctx.createStereoPanner();
+      panner.pan.value = event.pan;
+      panner.connect(destination);
+      output = panner;
     }
+    const note = {
+      frequency: voice.monotone ? theme.baseFrequency : event.frequency,
+      startTime: startTime + event.startTime,
+      duration: event.duration,
+    };
+    return playVoice(ctx, output, voice, note, theme.waveform);
+  }
 
-    if (instrument === 'marimba') {
-      const osc = ctx.createOscillator();
-      osc.type = 'sine';
-      osc.frequency.value = freq;
-      osc.connect(gain);
-      const attack = 0.03;
-      const release = Math.min(event.duration * 1.2, 0.25);
-      gain.gain.setValueAtTime(0, noteStart);
-      gain.gain.linearRampToValueAtTime(0.65, noteStart + attack);
-      gain.gain.setValueAtTime(0.5, noteEnd - release);
-      gain.gain.linearRampToValueAtTime(0, noteEnd);
-      osc.start(noteStart);
-      osc.stop(noteEnd + 0.1);
-      return;
+  private getTotalDuration(): number {
+    const lastEvent = this.events[this.events.length - 1];
+    return lastEvent ? lastEvent.startTime + lastEvent.duration : 0;
+  }
+
+  // 한 회차의 시작부터 다음 회차 시작까지 (타임라인 + 회차 간 간격)
+  private getPassPeriod(): number {
+    return this.getTotalDuration() + this.loop.gap;
+  }
+
+  // 반복 전체 길이 (무한 반복이면 Infinity)
+  private getLoopDuration(): number {
+    const { repeatCount } = this.loop;
+    if (!isFinite(repeatCount)) return Infinity;
+    return repeatCount * this.getPassPeriod() - this.loop.gap;
+  }
+
+  // 현재 재생 중인 회차 (회차 간 간격 동안은 방금 끝난 회차)
+  private getCurrentPass(): number {
+    if (!this.audioCtx) return 0;
+    const period = this.getPassPeriod();
+    if (period <= 0) return 0;
+    const elapsed = this.audioCtx.currentTime - this.loopOrigin;
+    return Math.min(Math.max(Math.floor(elapsed / period), 0), this.loop.repeatCount - 1);
+  }
+
+  // 예약된 멜로디·반주 오실레이터를 즉시 정지 (탐색 시 다시 스케줄하기 전)
+  private stopScheduledNotes() {
+    this.stopScheduler();
+    const now = this.audioCtx ? this.audioCtx.currentTime : 0;
+    this.activeNodes.forEach(({ osc }) => {
+      try {
+        osc.stop(now);
+      } catch (_) {}
+    });
+    this.activeNodes = [];
+  }
+
+  /**
+   * 반복 전체 기준으로 시작 시각이 [from, to) 안에 드는 멜로디·반주 음을 만든다.
+   * playFrom 이전에 이미 끝난 음은 건너뛰고, 걸쳐 있는 음은 지금부터 울린다 (탐색 시).
+   * 반주는 절대 시간으로 이어지므로 회차가 바뀌어도 끊기지 않는다.
+   */
+  private scheduleWindow(from: number, to: number, playFrom: number = from) {
+    if (!this.audioCtx || !this.melodyGain || !this.padGain || !this.playbackTheme) return;
+
+    const ctx = this.audioCtx;
+    const theme = this.playbackTheme;
+    const totalDuration = this.getTotalDuration();
+    const period = this.getPassPeriod();
+    const loopDuration = this.getLoopDuration();
+    const end = Math.min(to, loopDuration);
+
+    // 멜로디: 창에 걸친 회차마다 이진 탐색으로 해당 구간의 음만
+    const instrument: InstrumentType = theme.instrument ?? 'sine';
+    const firstPass = Math.max(0, Math.floor(from / period));
+    for (let pass = firstPass; pass * period < end && pass < this.loop.repeatCount; pass++) {
+      const passStart = pass * period;
+      for (let i = lowerBound(this.events, from - passStart); i < this.events.length; i++) {
+        const event = this.events[i];
+        if (passStart + event.startTime >= end) break;
+        if (!isNoteEvent(event) || passStart + event.startTime + event.duration <= playFrom) continue;
+        this.playNoteWithInstrument(ctx, this.melodyGain, theme, event, this.loopOrigin + passStart, instrument).forEach(osc =>
+          this.activeNodes.push({ osc, endTime: this.loopOrigin + passStart + event.startTime + event.duration + 0.1, isPad: false })
+        );
+      }
     }
 
-    if (instrument === 'violin') {
-      const osc = ctx.createOscillator();
-      osc.type = 'sawtooth';
-      osc.frequency.value = freq;
-      const filter = ctx.createBiquadFilter();
-      filter.type = 'lowpass';
-      filter.frequency.value = 2000;
-      filter.Q.value = 0.5;
-      osc.connect(filter);
-      filter.connect(gain);
-      const attack = 0.05;
-      const release = 0.08;
-      gain.gain.setValueAtTime(0, noteStart);
-      gain.gain.linearRampToValueAtTime(0.4, noteStart + attack);
-      gain.gain.setValueAtTime(0.35, noteEnd - release);
-      gain.gain.linearRampToValueAtTime(0, noteEnd);
-      osc.start(noteStart);
-      osc.stop(noteEnd + 0.1);
-      return;
+    // 반주: 단어마다 화음이 바뀌고, 마지막 회차가 끝난 뒤 PAD_TAIL까지
+    if (!this.padStopped && totalDuration > 0) {
+      const loop = { period, repeatCount: this.loop.repeatCount };
+      buildAccompaniment(theme, this.chordSections, to, Math.max(from, 0), loop).forEach(note => {
+        if (note.startTime + note.duration <= playFrom) return;
+        const osc = this.schedulePadNote(ctx, this.padGain!, note, this.loopOrigin);
+        this.activeNodes.push({ osc, endTime: this.loopOrigin + note.startTime + note.duration + 0.1, isPad: true });
+      });
     }
+  }
+
+  // 타이머가 깨어날 때마다: 끝난 노드 정리 후 LOOKAHEAD 앞까지 예약
+  private schedulerTick = () => {
+    if (!this.audioCtx) return;
+    const now = this.audioCtx.currentTime;
+    this.activeNodes = this.activeNodes.filter(node => node.endTime > now);
 
-    if (instrument === 'chime') {
-      const osc1 = ctx.createOscillator();
-      osc1.type = 'sine';
-      osc1.frequency.value = freq;
-      const osc2 = ctx.createOscillator();
-      osc2.type = 'sine';
-      osc2.frequency.value = freq * 2.5;
-      const harmGain = ctx.createGain();
-      harmGain.gain.value = 0.12;
-      osc1.connect(gain);
-      osc2.connect(harmGain);
-      harmGain.connect(gain);
-      const attack = 0.012;
-      const release = Math.min(event.duration * 0.5, 0.2);
-      gain.gain.setValueAtTime(0, noteStart);
-      gain.gain.linearRampToValueAtTime(0.55, noteStart + attack);
-      gain.gain.setValueAtTime(0.5, noteEnd - release);
-      gain.gain.linearRampToValueAtTime(0, noteEnd);
-      osc1.start(noteStart);
-      osc2.start(noteStart);
-      osc1.stop(noteEnd + 0.05);
-      osc2.stop(noteEnd + 0.05);
-      return;
+    const horizon = now - this.loopOrigin + (document.hidden ? HIDDEN_LOOKAHEAD : LOOKAHEAD);
+    if (horizon > this.scheduledUntil) {
+      this.scheduleWindow(this.scheduledUntil, horizon);
+      this.scheduledUntil = horizon;
     }
+  };
+
+  private startScheduler() {
+    this.stopScheduler();
+    this.schedulerTick();
+    this.schedulerID = window.setInterval(this.schedulerTick, SCHEDULER_INTERVAL * 1000);
+    // 탭이 가려지는 순간 바로 넓은 범위까지 예약 (다음 틱이 1초 뒤일 수 있음)
+    document.addEventListener('visibilitychange', this.schedulerTick);
+  }
 
-    // sine / default: 기존 단일 오실레이터
-    const osc = ctx.createOscillator();
-    osc.type = theme.waveform;
-    osc.frequency.value = freq;
-    osc.connect(gain);
-    const attack = 0.02;
-    const release = 0.1;
-    gain.gain.setValueAtTime(0, noteStart);
-    gain.gain.linearRampToValueAtTime(0.7, noteStart + attack);
-    gain.gain.setValueAtTime(0.7, noteEnd - release);
-    gain.gain.linearRampToValueAtTime(0, noteEnd);
-    osc.start(noteStart);
-    osc.stop(noteEnd + 0.1);
+  private stopScheduler() {
+    if (this.schedulerID) {
+      clearInterval(this.schedulerID);
+      this.schedulerID = null;
+      document.removeEventListener('visibilitychange', this.schedulerTick);
+    }
+  }
+
+  // 반복 전체 기준 offset(초) 지점부터 스케줄
+  private scheduleFrom(offset: number) {
+    if (!this.audioCtx || !this.padGain || !this.playbackTheme) return;
+
+    const startTime = this.audioCtx.currentTime + 0.1; // Scheduling delay
+    this.loopOrigin = startTime - offset;
+
+    // 이전 페이드아웃 예약을 지우고 반주 복구 (레벨은 믹서의 padLevel)
+    const now = this.audioCtx.currentTime;
+    this.padGain.gain.cancelScheduledValues(now);
+    this.padGain.gain.setValueAtTime(1, now);
+    this.padStopped = false;
+
+    // offset 전에 시작해 아직 울리고 있어야 할 음을 먼저 채운 뒤 스케줄러 시작
+    const lookback = this.events.reduce((max, event) => Math.max(max, event.duration), maxAccompanimentNote(this.playbackTheme));
+    this.scheduleWindow(offset - lookback, offset, offset);
+    this.scheduledUntil = offset;
+    this.startScheduler();
+  }
+
+  // 마지막 회차 끝 + 0.5초에 반주 페이드아웃, 2초 뒤 정리 (일시정지·무한 반복 중에는 예약하지 않음)
+  private scheduleCompletion() {
+    this.clearTimer();
+    if (!this.audioCtx) return;
+
+    const loopDuration = this.getLoopDuration();
+    if (!isFinite(loopDuration)) return;
+
+    const remaining = this.loopOrigin + loopDuration + 0.5 - this.audioCtx.currentTime;
+    this.timerID = window.setTimeout(() => {
+        this.stopScheduler();
+        this.stopDrone();
+        // Give time for drone fade out (2s)
+        this.timerID = window.setTimeout(() => {
+            const onComplete = this.onComplete;
+            this.stop();
+            onComplete?.();
+        }, 2000);
+    }, Math.max(remaining, 0) * 1000);
+  }
+
+  private clearTimer() {
+    if (this.timerID) {
+        clearTimeout(this.timerID);
+        this.timerID = null;
+    }
   }
 
-  public async play(theme: ThemeConfig, onComplete: () => void) {
+  /**
+   * 현재 타임라인을 재생한다.
+   * offset은 타임라인 기준 시작 위치(초), loop는 반복 횟수(무한 가능)와 회차 간 간격.
+   */
+  public async play(
+    theme: ThemeConfig,
+    onComplete: () => void,
+    offset: number = 0,
+    loop: LoopOptions = NO_LOOP
+  ) {
     this.initContext();
     if (!this.audioCtx || !this.melodyGain) return;
 
     this.isPlaying = true;
-    const startTime = this.audioCtx.currentTime + 0.1; // Scheduling delay
+    this.isPaused = false;
+    this.playbackTheme = theme;
+    this.chordSections = buildChordSections(this.events, theme);
+    this.effects?.configure(theme.effects, effectsUnit(theme));
+    this.onComplete = onComplete;
+    this.loop = {
+      repeatCount: Math.max(1, loop.repeatCount),
+      gap: Math.max(0, loop.gap),
+    };
+
+    this.stopScheduledNotes();
+    this.scheduleFrom(Math.min(Math.max(offset, 0), this.getTotalDuration()));
+    this.scheduleCompletion();
+  }
+
+  // 컨텍스트를 닫지 않고 멈춤 — audioCtx.currentTime도 함께 멈추므로 재생 위치가 유지됨
+  public pause() {
+    if (!this.isPlaying || this.isPaused || !this.audioCtx) return;
+    this.isPaused = true;
+    this.clearTimer();
+    this.stopScheduler();
+    this.audioCtx.suspend();
+  }
+
+  public resume() {
+    if (!this.isPlaying || !this.isPaused || !this.audioCtx) return;
+    this.isPaused = false;
+    this.audioCtx.resume();
+    this.startScheduler();
+    this.scheduleCompletion();
+  }
+
+  /**
+   * 재생 중(또는 일시정지 중) 현재 회차 타임라인의 offset(초) 지점으로 이동한다.
+   * 예약된 음을 모두 멈추고 offset부터 다시 스케줄하며, 새 재생 기준 시각을 돌려준다.
+   */
+  public seek(offset: number): number {
+    if (!this.isPlaying || !this.audioCtx) return this.getPlaybackOrigin();
+
+    const passStart = this.getCurrentPass() * this.getPassPeriod();
+    this.stopScheduledNotes();
+    this.scheduleFrom(passStart + Math.min(Math.max(offset, 0), this.getTotalDuration()));
+    if (this.isPaused) {
+      this.stopScheduler();
+    } else {
+      this.scheduleCompletion();
+    }
+    return this.getPlaybackOrigin();
+  }
 
-    // Determine total duration first (needed for pad scheduling)
+  /**
+   * generateTimeline으로 만든 현재 타임라인을 OfflineAudioContext로 렌더링한다.
+   * 실시간 재생과 같은 악기·반주를 쓰고, 끝부분의 반주 페이드아웃까지 포함한다.
+   */
+  public async renderOffline(theme: ThemeConfig, sampleRate: number = 44100): Promise<AudioBuffer> {
     const lastEvent = this.events[this.events.length - 1];
     const totalDuration = lastEvent ? lastEvent.startTime + lastEvent.duration : 0;
-
-    // 반주: 재생 전체 구간에 미리 스케줄 (setInterval 없이 계속 재생)
-    this.schedulePadArpeggio(theme, startTime, totalDuration);
+    const fadeStart = totalDuration + 0.5;
+    const fadeTime = 2.0;
+    // 리버브 잔향이 페이드아웃보다 길면 끝까지 담음
+    const tail = Math.max(fadeTime, theme.effects?.reverb?.decay ?? 0);
+    const length = Math.ceil((fadeStart + tail) * sampleRate);
+
+    const ctx = new OfflineAudioContext(2, length, sampleRate);
+    const { melodyGain, padGain, effects } = createBuses(ctx, this.mixer);
+    effects.configure(theme.effects, effectsUnit(theme));
+
+    // 오프라인은 시간 제약이 없으므로 전체를 한 번에 스케줄
+    padGain.gain.setValueAtTime(1, 0);
+    buildAccompaniment(theme, buildChordSections(this.events, theme), Infinity).forEach(note =>
+      this.schedulePadNote(ctx, padGain, note, 0)
+    );
+    // play()의 stopDrone과 같은 2초 페이드아웃
+    padGain.gain.setValueAtTime(1, fadeStart);
+    padGain.gain.linearRampToValueAtTime(0, fadeStart + fadeTime);
 
     const instrument: InstrumentType = theme.instrument ?? 'sine';
     this.events.forEach(event => {
-      if (event.type === 'note' && event.frequency) {
-        this.playNoteWithInstrument(this.audioCtx!, theme, event, startTime, instrument);
+      if (isNoteEvent(event)) {
+        this.playNoteWithInstrument(ctx, melodyGain, theme, event, 0, instrument);
       }
     });
 
-    // Set timer for cleanup
-    this.timerID = window.setTimeout(() => {
-        this.stopDrone();
-        // Give time for drone fade out (2s)
-        setTimeout(() => {
-            this.stop();
-            onComplete();
-        }, 2000);
-    }, (totalDuration + 0.5) * 1000);
+    return ctx.startRendering();
+  }
+
+  /**
+   * 믹서 값(레벨·뮤트·솔로)을 바꾼다. 재생 중이면 바로 반영되고, 이후 재생·내보내기에도 쓰인다.
+   */
+  public setMixer(mixer: MixerSettings) {
+    this.mixer = mixer;
+    if (!this.audioCtx || !this.masterGain || !this.melodyGain || !this.padLevel) return;
+    const gains = resolveMixerGains(mixer);
+    const now = this.audioCtx.currentTime;
+    this.masterGain.gain.setTargetAtTime(gains.master, now, MIXER_SMOOTHING);
+    this.melodyGain.gain.setTargetAtTime(gains.melody, now, MIXER_SMOOTHING);
+    this.padLevel.gain.setTargetAtTime(gains.pad, now, MIXER_SMOOTHING);
+  }
+
+  public getMixer(): MixerSettings {
+    return this.mixer;
+  }
+
+  // ---------------------------------------------------------------------------
+  // 키 입력 모드 (Straight key / Iambic paddle)
+  // ---------------------------------------------------------------------------
+
+  // 키 입력에 쓸 컨텍스트를 준비하고 돌려줌 (키 타이밍도 이 시계로 잰다)
+  public startKeying(): AudioContext | null {
+    this.initContext();
+    return this.audioCtx;
+  }
+
+  /**
+   * Straight key: 뗄 때까지 현재 악기로 톤을 낸다.
+   * 끝을 정하지 않은 음으로 시작해 sustain에 머물다가, keyUp에서 음색의 release만큼 닫는다.
+   */
+  public keyDown(theme: ThemeConfig) {
+    this.initContext();
+    if (!this.audioCtx || !this.melodyGain || this.keyTone) return;
+    this.effects?.configure(theme.effects, effectsUnit(theme));
+
+    const ctx = this.audioCtx;
+    const gain = ctx.createGain();
+    gain.connect(this.melodyGain);
+    const held: NoteEvent = {
+      type: 'note',
+      startTime: 0,
+      duration: Infinity,
+      symbol: null,
+      frequency: theme.baseFrequency,
+    };
+    const instrument = theme.instrument ?? 'sine';
+    const oscillators = this.playNoteWithInstrument(ctx, gain, theme, held, ctx.currentTime, instrument);
+    this.keyTone = { gain, oscillators, release: getThemeVoice(instrument, theme).envelope.release };
+  }
+
+  public keyUp() {
+    if (!this.audioCtx || !this.keyTone) return;
+    const now = this.audioCtx.currentTime;
+    const { gain, oscillators, release } = this.keyTone;
+    // 음색의 release 동안 올림 코사인으로 내린 뒤, 다 내려간 다음에 정지
+    gain.gain.cancelScheduledValues(now);
+    scheduleRamp(gain.gain, 1, 0, now, now + release, 'cosine');
+    oscillators.forEach(osc => {
+      try {
+        osc.stop(now + release + 0.02);
+      } catch (_) {}
+    });
+    this.keyTone = null;
+  }
+
+  // Paddle: 키어가 정한 길이의 요소 하나를 지금 울림
+  public playKeyedElement(theme: ThemeConfig, symbol: MorseSymbol, duration: number) {
+    this.initContext();
+    if (!this.audioCtx || !this.melodyGain) return;
+    this.effects?.configure(theme.effects, effectsUnit(theme));
+    const element: NoteEvent = {
+      type: 'note',
+      startTime: 0,
+      duration,
+      symbol,
+      frequency: theme.baseFrequency,
+    };
+    this.playNoteWithInstrument(this.audioCtx, this.melodyGain, theme, element, this.audioCtx.currentTime, theme.instrument ?? 'sine');
   }
 
   public stop() {
     this.isPlaying = false;
+    this.isPaused = false;
     this.stopDrone();
-    
+    this.stopScheduler();
+    this.keyUp();
+    this.activeNodes = [];
+    this.onComplete = null;
+
+    // 닫히는 중인 컨텍스트를 다음 play()가 재사용하지 않도록 바로 떼어냄
     if (this.audioCtx) {
-        this.audioCtx.suspend();
-        this.audioCtx.close().then(() => {
-            this.audioCtx = null;
-        });
-    }
-    if (this.timerID) {
-        clearTimeout(this.timerID);
-        this.timerID = null;
+        const ctx = this.audioCtx;
+        this.audioCtx = null;
+        ctx.suspend();
+        ctx.close();
     }
+    this.clearTimer();
   }
 
   public getCurrentTime(): number {
@@ -398,4 +663,18 @@ export class AudioEngine {
       if (!this.audioCtx) return 0;
       return this.audioCtx.currentTime - startedAt;
   }
+
+  // 비주얼라이저·진행도 동기화용
+  public getAudioContext(): AudioContext | null {
+    return this.audioCtx;
+  }
+
+  // 현재 회차의 타임라인 0초가 울리는 audioCtx 시각 (반복 시 회차마다 바뀜)
+  public getPlaybackOrigin(): number {
+    return this.loopOrigin + this.getCurrentPass() * this.getPassPeriod();
+  }
+
+  public getIsPaused(): boolean {
+    return this.isPaused;
+  }
 }
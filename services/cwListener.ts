@@ -0,0 +1,95 @@
+// 마이크 / 오디오 파일 → PCM 샘플 스트림 (해독은 utils/cwDecoder.ts)
+
+export type SampleHandler = (samples: Float32Array, sampleRate: number) => void;
+
+const PROCESSOR_BUFFER_SIZE = 2048;
+
+export class CwListener {
+  private audioCtx: AudioContext | null = null;
+  private processor: ScriptProcessorNode | null = null;
+  private source: AudioNode | null = null;
+  private stream: MediaStream | null = null;
+
+  private createContext(): AudioContext {
+    this.stop();
+    this.audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    return this.audioCtx;
+  }
+
+  // 입력 노드 → ScriptProcessor로 샘플을 넘김 (출력은 무음으로 연결해야 콜백이 돈다)
+  private attachProcessor(ctx: AudioContext, source: AudioNode, onSamples: SampleHandler) {
+    const processor = ctx.createScriptProcessor(PROCESSOR_BUFFER_SIZE, 1, 1);
+    processor.onaudioprocess = (e) => {
+      onSamples(new Float32Array(e.inputBuffer.getChannelData(0)), ctx.sampleRate);
+    };
+    const mute = ctx.createGain();
+    mute.gain.value = 0;
+    source.connect(processor);
+    processor.connect(mute);
+    mute.connect(ctx.destination);
+    this.processor = processor;
+    this.source = source;
+  }
+
+  /**
+   * 마이크 입력을 듣기 시작한다. 권한을 거부하면 getUserMedia의 에러가 그대로 전달된다.
+   */
+  public async startMicrophone(onSamples: SampleHandler): Promise<AudioContext> {
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+    });
+    const ctx = this.createContext();
+    this.stream = stream;
+    this.attachProcessor(ctx, ctx.createMediaStreamSource(stream), onSamples);
+    return ctx;
+  }
+
+  /**
+   * 오디오 파일을 재생하면서 같은 샘플을 해독기로 넘긴다 (실시간 타임라인 표시용).
+   * 재생이 끝나면 onEnded를 호출한다.
+   */
+  public async startFile(data: ArrayBuffer, onSamples: SampleHandler, onEnded: () => void): Promise<AudioContext> {
+    const ctx = this.createContext();
+    const buffer = await ctx.decodeAudioData(data);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = () => {
+      if (this.audioCtx === ctx) onEnded();
+    };
+    this.attachProcessor(ctx, source, onSamples);
+    source.start();
+    return ctx;
+  }
+
+  public getAudioContext(): AudioContext | null {
+    return this.audioCtx;
+  }
+
+  public stop() {
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor.disconnect();
+      this.processor = null;
+    }
+    if (this.source) {
+      if (this.source instanceof AudioBufferSourceNode) {
+        this.source.onended = null;
+        try {
+          this.source.stop();
+        } catch (_) {}
+      }
+      this.source.disconnect();
+      this.source = null;
+    }
+    if (this.stream) {
+      this.stream.getTracks().forEach(track => track.stop());
+      this.stream = null;
+    }
+    if (this.audioCtx) {
+      const ctx = this.audioCtx;
+      this.audioCtx = null;
+      ctx.close();
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { ThemeEffects } from '../types';
+
+// 멜로디·반주 공용 이펙트 버스
+// input → 저역 통과 필터 ─┬→ dry ──────────────┬→ destination
+//                         ├→ 컨볼루션 리버브 ──┤
+//                         └→ 딜레이 (⟲ 피드백) ┘
+
+const MAX_DELAY = 2; // s
+const MAX_FEEDBACK = 0.9; // 1에 가까우면 끝없이 울림
+
+/**
+ * 리버브용 임펄스 응답: 좌우가 다른 잡음에 지수 감쇠를 곱한다 (decay초 뒤 -60dB).
+ */
+export function createImpulseResponse(ctx: BaseAudioContext, decay: number): AudioBuffer {
+  const length = Math.max(1, Math.round(decay * ctx.sampleRate));
+  const buffer = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * Math.pow(0.001, i / length);
+    }
+  }
+  return buffer;
+}
+
+export class EffectsBus {
+  public readonly input: GainNode;
+  private readonly ctx: BaseAudioContext;
+  private readonly filter: BiquadFilterNode;
+  private readonly dry: GainNode;
+  private readonly reverbGain: GainNode;
+  private readonly delay: DelayNode;
+  private readonly feedback: GainNode;
+  private readonly delayGain: GainNode;
+  private convolver: ConvolverNode | null = null;
+  private reverbDecay: number | null = null; // 지금 임펄스 응답의 길이 (같으면 다시 만들지 않음)
+
+  constructor(ctx: BaseAudioContext, destination: AudioNode) {
+    this.ctx = ctx;
+    this.input = ctx.createGain();
+    this.filter = ctx.createBiquadFilter();
+    this.filter.type = 'lowpass';
+    this.dry = ctx.createGain();
+    this.reverbGain = ctx.createGain();
+    this.delay = ctx.createDelay(MAX_DELAY);
+    this.feedback = ctx.createGain();
+    this.delayGain = ctx.createGain();
+
+    this.input.connect(this.filter);
+    this.filter.connect(this.dry);
+    this.dry.connect(destination);
+
+    this.reverbGain.connect(destination);
+
+    this.filter.connect(this.delay);
+    this.delay.connect(this.feedback);
+    this.feedback.connect(this.delay);
+    this.delay.connect(this.delayGain);
+    this.delayGain.connect(destination);
+
+    this.configure(undefined, 0);
+  }
+
+  /**
+   * 테마의 이펙트 설정을 반영한다. unit은 점 길이(초) — 딜레이를 템포에 맞추는 데 쓴다.
+   */
+  public configure(effects: ThemeEffects | undefined, unit: number) {
+    const { reverb, delay, filter } = effects ?? {};
+
+    // 필터가 없으면 나이퀴스트 근처까지 열어 둠
+    this.filter.frequency.value = filter ? filter.cutoff : this.ctx.sampleRate / 2;
+    this.filter.Q.value = filter ? filter.Q : 0.7;
+
+    if (reverb && reverb.mix > 0 && reverb.decay > 0) {
+      this.setReverbDecay(reverb.decay);
+      this.reverbGain.gain.value = reverb.mix;
+    } else {
+      this.reverbGain.gain.value = 0;
+    }
+    // 젖은 소리가 더해지는 만큼 직통을 줄여 전체 음량을 비슷하게 유지
+    this.dry.gain.value = 1 - (reverb?.mix ?? 0) * 0.5;
+
+    if (delay && delay.mix > 0) {
+      this.delay.delayTime.value = Math.min(Math.max(delay.units * unit, 0), MAX_DELAY);
+      this.feedback.gain.value = Math.min(Math.max(delay.feedback, 0), MAX_FEEDBACK);
+      this.delayGain.gain.value = delay.mix;
+    } else {
+      this.feedback.gain.value = 0;
+      this.delayGain.gain.value = 0;
+    }
+  }
+
+  // 컨볼버 버퍼는 바꿀 때마다 노드를 새로 만든다 (한 번만 설정할 수 있는 브라우저가 있음)
+  private setReverbDecay(decay: number) {
+    if (this.reverbDecay === decay && this.convolver) return;
+    if (this.convolver) {
+      this.filter.disconnect(this.convolver);
+      this.convolver.disconnect();
+    }
+    this.convolver = this.ctx.createConvolver();
+    this.convolver.buffer = createImpulseResponse(this.ctx, decay);
+    this.filter.connect(this.convolver);
+    this.convolver.connect(this.reverbGain);
+    this.reverbDecay = decay;
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THEME, HistoryEntry } from '../types';
+import { recordPlay } from '../utils/history';
+import { MemoryHistoryStore, createHistoryStore } from './historyStore';
+
+const entry = (id: string, playedAt: number): HistoryEntry => ({
+  id,
+  text: id.toUpperCase(),
+  theme: DEFAULT_THEME,
+  duration: 1,
+  playedAt,
+  favorite: false,
+});
+
+describe('MemoryHistoryStore', () => {
+  it('lists entries most recent first', async () => {
+    const store = new MemoryHistoryStore([entry('a', 1000), entry('b', 3000), entry('c', 2000)]);
+    expect((await store.list()).map(e => e.id)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('overwrites entries with the same id and removes by id', async () => {
+    const store = new MemoryHistoryStore([entry('a', 1000), entry('b', 2000)]);
+    await store.put({ ...entry('a', 5000), favorite: true });
+    await store.remove('b');
+    expect(await store.list()).toEqual([{ ...entry('a', 5000), favorite: true }]);
+  });
+
+  it('stays in sync with recordPlay when its changes are persisted', async () => {
+    const store = new MemoryHistoryStore();
+    let entries: HistoryEntry[] = [];
+    for (const [text, playedAt] of [['HELLO', 1000], ['WORLD', 2000], ['HELLO', 3000]] as const) {
+      const result = recordPlay(entries, text, DEFAULT_THEME, 1, playedAt);
+      entries = result.entries;
+      await store.put(result.upsert);
+      await Promise.all(result.removed.map(removed => store.remove(removed.id)));
+    }
+    expect(await store.list()).toEqual(entries);
+    expect(entries.map(e => e.text)).toEqual(['HELLO', 'WORLD']);
+  });
+});
+
+describe('createHistoryStore', () => {
+  it('falls back to the in-memory store without IndexedDB', () => {
+    expect(createHistoryStore()).toBeInstanceOf(MemoryHistoryStore);
+  });
+});
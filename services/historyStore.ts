@@ -0,0 +1,90 @@
+import { HistoryEntry } from '../types';
+
+// 재생한 메시지 기록 — 저장소는 HistoryStore 인터페이스 뒤에 둔다
+// 브라우저에서는 IndexedDB, IndexedDB가 없거나 테스트에서는 메모리 구현을 쓴다
+
+export interface HistoryStore {
+  /** 최근 재생 순 */
+  list(): Promise<HistoryEntry[]>;
+  /** 같은 id가 있으면 덮어쓴다 */
+  put(entry: HistoryEntry): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const byRecent = (a: HistoryEntry, b: HistoryEntry) => b.playedAt - a.playedAt;
+
+export class MemoryHistoryStore implements HistoryStore {
+  private entries = new Map<string, HistoryEntry>();
+
+  constructor(initial: HistoryEntry[] = []) {
+    initial.forEach(entry => this.entries.set(entry.id, entry));
+  }
+
+  public async list(): Promise<HistoryEntry[]> {
+    return Array.from(this.entries.values()).sort(byRecent);
+  }
+
+  public async put(entry: HistoryEntry): Promise<void> {
+    this.entries.set(entry.id, entry);
+  }
+
+  public async remove(id: string): Promise<void> {
+    this.entries.delete(id);
+  }
+}
+
+const DB_NAME = 'morse-melody';
+const DB_VERSION = 1;
+const STORE_NAME = 'history';
+
+// IDBRequest → Promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDbHistoryStore implements HistoryStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  // 처음 쓸 때 연다 (열기에 실패하면 다음 호출에서 다시 시도)
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      this.dbPromise = requestToPromise(request).catch(err => {
+        this.dbPromise = null;
+        throw err;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  public async list(): Promise<HistoryEntry[]> {
+    const store = await this.objectStore('readonly');
+    const entries = await requestToPromise(store.getAll() as IDBRequest<HistoryEntry[]>);
+    return entries.sort(byRecent);
+  }
+
+  public async put(entry: HistoryEntry): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.put(entry));
+  }
+
+  public async remove(id: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await requestToPromise(store.delete(id));
+  }
+}
+
+export function createHistoryStore(): HistoryStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDbHistoryStore() : new MemoryHistoryStore();
+}
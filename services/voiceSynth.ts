@@ -0,0 +1,176 @@
+import { OscillatorLayer, PluckLayer, VoiceDefinition, VoiceEnvelope } from '../utils/voices';
+
+// utils/voices.ts의 음색 정의 → Web Audio 노드 (실시간 재생·오프라인 렌더링 공용)
+
+export interface VoiceNote {
+  frequency: number;
+  startTime: number; // 컨텍스트 시각
+  duration: number; // Infinity면 끝을 정하지 않고 sustain에 머묾 (닫고 멈추는 건 호출자가)
+}
+
+const STOP_PADDING = 0.1; // 엔벨로프가 0이 된 뒤 소스를 멈출 때까지 여유
+const COSINE_STEPS = 8; // 올림 코사인 램프를 나누는 직선 구간 수
+
+/**
+ * from → to 램프를 예약한다.
+ * 올림 코사인은 setValueCurveAtTime 대신 짧은 직선 여러 개로 — 곡선끼리 시각이 맞닿으면
+ * 브라우저가 겹침 오류를 내기 때문.
+ */
+export function scheduleRamp(
+  param: AudioParam,
+  from: number,
+  to: number,
+  t0: number,
+  t1: number,
+  curve: VoiceEnvelope['curve'] = 'linear'
+) {
+  if (t1 <= t0) {
+    param.setValueAtTime(to, t0);
+    return;
+  }
+  param.setValueAtTime(from, t0);
+  if (curve !== 'cosine') {
+    param.linearRampToValueAtTime(to, t1);
+    return;
+  }
+  for (let i = 1; i <= COSINE_STEPS; i++) {
+    const shape = (1 - Math.cos((Math.PI * i) / COSINE_STEPS)) / 2;
+    param.linearRampToValueAtTime(from + (to - from) * shape, t0 + ((t1 - t0) * i) / COSINE_STEPS);
+  }
+}
+
+// 엔벨로프를 gain 파라미터에 예약한다
+function applyEnvelope(param: AudioParam, envelope: VoiceEnvelope, start: number, duration: number) {
+  const end = start + duration;
+  const decay = envelope.decayRatio !== undefined ? Math.min(envelope.decay, duration * envelope.decayRatio) : envelope.decay;
+  const release =
+    envelope.releaseRatio !== undefined ? Math.min(envelope.release, duration * envelope.releaseRatio) : envelope.release;
+  const attackEnd = Math.min(start + envelope.attack, end);
+  const decayEnd = Math.min(attackEnd + decay, end);
+  const releaseStart = Math.max(end - release, decayEnd);
+
+  const segment = (from: number, to: number, t0: number, t1: number) => scheduleRamp(param, from, to, t0, t1, envelope.curve);
+
+  segment(0, envelope.peak, start, attackEnd);
+  if (!isFinite(duration)) {
+    if (!envelope.hold) segment(envelope.peak, envelope.sustain, attackEnd, decayEnd);
+    return;
+  }
+  if (envelope.hold) {
+    segment(envelope.peak, envelope.peak, attackEnd, releaseStart);
+  } else {
+    segment(envelope.peak, envelope.sustain, attackEnd, decayEnd);
+    segment(envelope.sustain, envelope.sustain, decayEnd, releaseStart);
+  }
+  segment(envelope.sustain, 0, releaseStart, end);
+}
+
+function playOscillatorLayer(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  layer: OscillatorLayer,
+  note: VoiceNote,
+  themeWaveform: OscillatorType
+): AudioScheduledSourceNode[] {
+  const frequency = note.frequency * layer.ratio;
+  const osc = ctx.createOscillator();
+  osc.type = layer.waveform === 'theme' ? themeWaveform : layer.waveform;
+  osc.frequency.value = frequency;
+  if (layer.detune) osc.detune.value = layer.detune;
+  osc.connect(destination);
+
+  const stopAt = note.startTime + note.duration + STOP_PADDING;
+  osc.start(note.startTime);
+  if (isFinite(stopAt)) osc.stop(stopAt);
+  if (!layer.fm) return [osc];
+
+  // FM: 모듈레이터 → 캐리어 주파수. 변조 깊이가 줄면서 금속성 배음이 사라짐
+  const modFrequency = note.frequency * layer.fm.ratio;
+  const modulator = ctx.createOscillator();
+  modulator.frequency.value = modFrequency;
+  const depth = ctx.createGain();
+  depth.gain.setValueAtTime(layer.fm.index * modFrequency, note.startTime);
+  depth.gain.linearRampToValueAtTime(0, note.startTime + Math.min(layer.fm.decay, note.duration + STOP_PADDING));
+  modulator.connect(depth);
+  depth.connect(osc.frequency);
+  modulator.start(note.startTime);
+  if (isFinite(stopAt)) modulator.stop(stopAt);
+  return [osc, modulator];
+}
+
+/**
+ * Karplus-Strong을 미리 계산한 버퍼. 지연선 길이는 정수라 높은 음은 조금(최대 약 1%) 어긋난다.
+ */
+function renderPluck(ctx: BaseAudioContext, layer: PluckLayer, frequency: number, duration: number): AudioBuffer {
+  const sampleRate = ctx.sampleRate;
+  const length = Math.max(1, Math.ceil(duration * sampleRate));
+  const buffer = ctx.createBuffer(1, length, sampleRate);
+  const data = buffer.getChannelData(0);
+
+  // 두 샘플을 섞는 비율만큼 지연이 늘어나므로 그만큼 빼서 주기를 맞춤
+  const blend = Math.min(Math.max(layer.damping, 0), 1) / 2;
+  const period = Math.max(2, Math.round(sampleRate / frequency - blend));
+  // 한 바퀴마다 곱하는 값: decay초 뒤 0.001 (-60dB)
+  const loss = Math.pow(0.001, period / (sampleRate * layer.decay));
+
+  for (let i = 0; i < length; i++) {
+    if (i < period) {
+      data[i] = Math.random() * 2 - 1;
+    } else {
+      const previous = i - period - 1 >= 0 ? data[i - period - 1] : 0;
+      data[i] = loss * ((1 - blend) * data[i - period] + blend * previous);
+    }
+  }
+  return buffer;
+}
+
+function playPluckLayer(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  layer: PluckLayer,
+  note: VoiceNote
+): AudioScheduledSourceNode[] {
+  const source = ctx.createBufferSource();
+  // 끝을 모르는 음은 줄이 잦아들 때(-60dB)까지만 계산
+  const length = isFinite(note.duration) ? note.duration : layer.decay;
+  source.buffer = renderPluck(ctx, layer, note.frequency * layer.ratio, length + STOP_PADDING);
+  source.connect(destination);
+  source.start(note.startTime);
+  if (isFinite(note.duration)) source.stop(note.startTime + note.duration + STOP_PADDING);
+  return [source];
+}
+
+/**
+ * 음색 정의대로 음 하나를 예약하고, 멈출 수 있도록 소스 노드를 돌려준다.
+ * 겹(layer) → 겹별 gain → (필터) → 엔벨로프 gain → destination
+ */
+export function playVoice(
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  voice: VoiceDefinition,
+  note: VoiceNote,
+  themeWaveform: OscillatorType
+): AudioScheduledSourceNode[] {
+  const envelope = ctx.createGain();
+  envelope.connect(destination);
+  applyEnvelope(envelope.gain, voice.envelope, note.startTime, note.duration);
+
+  let input: AudioNode = envelope;
+  if (voice.filter) {
+    const filter = ctx.createBiquadFilter();
+    filter.type = voice.filter.type;
+    filter.frequency.value = voice.filter.keyTrack ? voice.filter.frequency * note.frequency : voice.filter.frequency;
+    filter.Q.value = voice.filter.Q;
+    filter.connect(envelope);
+    input = filter;
+  }
+
+  return voice.layers.flatMap(layer => {
+    const layerGain = ctx.createGain();
+    layerGain.gain.value = layer.gain;
+    layerGain.connect(input);
+    return layer.kind === 'pluck'
+      ? playPluckLayer(ctx, layerGain, layer, note)
+      : playOscillatorLayer(ctx, layerGain, layer, note, themeWaveform);
+  });
+}
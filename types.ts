@@ -16,10 +16,94 @@ export interface PlaybackEvent {
   duration: number;
   symbol: MorseSymbol | null;
   frequency?: number;
-  char?: string;
+  char?: string; // 보내는 단위 (자모·가나·문자)
+  sourceIndex?: number; // 이 음이 속한 원문 문자의 위치 (textToMorse의 chars[].index)
+  sourceChar?: string; // 원문 문자 (한글이면 음절)
+  pan?: number; // -1(왼쪽) ~ 1(오른쪽), 테마에 pan 이펙트가 있을 때만
 }
 
-export type InstrumentType = 'sine' | 'piano' | 'marimba' | 'violin' | 'chime';
+// 반주(패드) 음 하나 — 재생·MIDI 내보내기가 같은 목록을 사용
+export interface PadNote {
+  startTime: number;
+  duration: number;
+  frequency: number;
+  velocity?: number; // 0~1 상대 세기 (기본 1) — 화음처럼 여러 음이 겹치면 낮춤
+}
+
+// 음높이 매핑 전략 (utils/pitchMapping.ts): 해시, 문자별 고정음, 점/대시 두 음, 단어 윤곽
+export type PitchMapping = 'hash' | 'fixed' | 'cw' | 'contour';
+
+// 반주 스타일 (utils/accompaniment.ts): 지속 화음, 아르페지오, 베이스+화음, 없음
+export type AccompanimentStyle = 'pad' | 'arpeggio' | 'bass-chords' | 'silent';
+
+// 반복 재생 설정
+export interface LoopOptions {
+  repeatCount: number; // 1 = 한 번 재생, Infinity = 무한 반복
+  gap: number; // 회차 사이 쉬는 시간 (초)
+}
+
+// 음색 id — utils/voices.ts 레지스트리의 키 (기본: sine, piano, marimba, violin, chime, fm-bell, pluck, organ, sidetone)
+export type InstrumentType = string;
+
+// 모스 타이밍 비율: 표준 ITU (점1/대시3/요소간1/문자간3/단어간7) 또는 기존 음악적 비율 (대시4)
+export type MorseTimingRatios = 'itu' | 'musical';
+
+export interface MorseTiming {
+  wpm: number; // 문자 속도 (PARIS 기준 words per minute)
+  farnsworthWpm?: number; // 실효 속도 (wpm보다 느리면 문자·단어 간격만 늘림)
+  ratios: MorseTimingRatios;
+}
+
+// 그루브 모드 (utils/groove.ts): 모스 길이를 BPM 격자의 정수 칸으로 맞춤
+export interface GrooveSettings {
+  bpm: number;
+  subdivision: number; // 한 박을 나누는 칸 수 (2 = 8분음표, 4 = 16분음표)
+  swing: number; // 0~0.45 — 박 안의 엇박 칸을 칸 길이의 이만큼 늦춤
+  beatsPerBar: number;
+}
+
+// 이펙트 버스 설정 (services/effectsBus.ts) — 빠진 항목은 꺼짐
+export interface ReverbSettings {
+  mix: number; // 0~1 (젖은 소리 비율)
+  decay: number; // 잔향 길이 (초, -60dB까지)
+}
+
+export interface DelaySettings {
+  mix: number; // 0~1
+  feedback: number; // 0~0.9
+  units: number; // 지연 시간 = 점 길이 × units (템포 동기)
+}
+
+export interface FilterSettings {
+  cutoff: number; // 저역 통과 차단 주파수 (Hz)
+  Q: number;
+}
+
+export interface PanSettings {
+  width: number; // 0~1 — 원문 문자마다 좌우 위치가 바뀌는 폭
+}
+
+export interface ThemeEffects {
+  reverb?: ReverbSettings;
+  delay?: DelaySettings;
+  filter?: FilterSettings;
+  pan?: PanSettings;
+}
+
+// 믹서 (services/audioEngine.ts) — 레벨은 0~1, 스타일 프리셋마다 따로 보관 (utils/mixer.ts)
+export type MixerChannelId = 'melody' | 'pad';
+
+export interface MixerChannel {
+  level: number;
+  mute: boolean;
+  solo: boolean; // 솔로인 채널이 하나라도 있으면 나머지는 들리지 않음
+}
+
+export interface MixerSettings {
+  master: number;
+  melody: MixerChannel;
+  pad: MixerChannel;
+}
 
 export interface ThemeConfig {
   mood: string;
@@ -30,6 +114,32 @@ export interface ThemeConfig {
   tempoMultiplier: number; // 1.0 is standard (~60ms dot)
   scale: number[]; // Array of frequency ratios or semitone offsets
   instrument?: InstrumentType; // 악기 타임브러 (미지정 시 waveform 사용)
+  timing?: MorseTiming; // 미지정 시 tempoMultiplier 기반 기존 타이밍
+  groove?: GrooveSettings; // 미지정 시 격자 없이 모스 길이 그대로
+  effects?: ThemeEffects; // 미지정 시 이펙트 없이 직통
+  accompaniment?: AccompanimentStyle; // 미지정 시 arpeggio
+  pitchMapping?: PitchMapping; // 미지정 시 hash
+  sidetoneRiseTime?: number; // 사이드톤 음색의 상승·하강 시간 (초, 미지정 시 5ms)
+}
+
+// 테마 편집기·사용자 프리셋·공유 링크가 다루는 수동 테마 값 (타이밍·그루브는 따로 설정)
+export type PresetTheme = Omit<ThemeConfig, 'instrument' | 'timing' | 'groove'> & { instrument: InstrumentType };
+
+// 사용자가 저장한 스타일 프리셋 (localStorage / JSON 내보내기)
+export interface CustomPreset {
+  id: string;
+  label: string;
+  theme: PresetTheme;
+}
+
+// 재생 기록 한 건 (services/historyStore.ts)
+export interface HistoryEntry {
+  id: string;
+  text: string;
+  theme: ThemeConfig; // 재생 당시 테마 그대로 (타이밍 포함)
+  duration: number; // 한 회차 길이 (초)
+  playedAt: number; // 마지막 재생 시각 (ms, Date.now())
+  favorite: boolean;
 }
 
 export const DEFAULT_THEME: ThemeConfig = {
@@ -0,0 +1,236 @@
+import { AccompanimentStyle, MorseSymbol, PadNote, PlaybackEvent, ThemeConfig } from '../types';
+import { barLength, beatLength, gridTime } from './groove';
+
+// 반주: 테마의 스케일·무드로 화음 진행을 고르고, 단어 경계(WORD_SPACE)마다 화음을 바꾼다
+// 재생·오프라인 렌더링·MIDI 내보내기가 같은 음 목록을 쓴다
+// 리듬은 박 단위 — 그루브 모드면 멜로디와 같은 BPM·스윙, 아니면 1박 = 1초
+
+export const ACCOMPANIMENT_STYLES: { id: AccompanimentStyle; label: string }[] = [
+  { id: 'pad', label: 'Sustained pad' },
+  { id: 'arpeggio', label: 'Arpeggio' },
+  { id: 'bass-chords', label: 'Bass + chords' },
+  { id: 'silent', label: 'Silent' },
+];
+
+export const DEFAULT_ACCOMPANIMENT: AccompanimentStyle = 'arpeggio';
+
+// 반주가 타임라인 끝 뒤로 이어지는 시간 (초)
+export const PAD_TAIL = 2;
+
+// 한 화음이 이보다 길면 (긴 단어, 회차 사이 간격) 나눠서 다시 침 — 그루브 모드면 마디 단위로
+const MAX_CHORD_LENGTH = 4; // s
+// 아래 길이는 모두 박 단위
+const PAD_OVERLAP = 0.6; // 지속 화음이 다음 화음과 겹치는 시간 — 릴리스 동안 끊기지 않게
+const ARPEGGIO_STEP = 0.5;
+const ARPEGGIO_NOTE = 0.9;
+const BASS_OVERLAP = 0.3;
+const CHORD_STAB_INTERVAL = 1.0;
+const CHORD_STAB_NOTE = 0.8;
+
+// 화음 진행: 스케일 음 번호(0부터) 위에 3도씩 쌓은 화음의 순서
+const PROGRESSIONS = {
+  bright: [0, 3, 4, 0],
+  dark: [0, 3, 2, 4],
+  calm: [0, 2, 0, 3],
+};
+
+const MOOD_PROGRESSIONS: [RegExp, keyof typeof PROGRESSIONS][] = [
+  [/energetic|epic|happy|joy|bright/i, 'bright'],
+  [/melanchol|sad|lonely|dark/i, 'dark'],
+  [/dream|serene|gentle|tranquil|calm|peace/i, 'calm'],
+];
+
+// 한 화음 구간 — chord는 반주 기준음(baseFrequency의 한 옥타브 아래)에서의 반음 거리
+export interface ChordSection {
+  startTime: number;
+  duration: number;
+  chord: number[];
+}
+
+// 반복 재생 설정 (회차 시작 간격, 회차 수)
+export interface AccompanimentLoop {
+  period: number;
+  repeatCount: number;
+}
+
+const SINGLE_PASS: AccompanimentLoop = { period: 0, repeatCount: 1 };
+
+// 반주 박자
+interface AccompanimentClock {
+  beat: number; // 한 박 길이 (초)
+  time: (beats: number) => number; // 회차 시작에서 beats박 뒤의 시각 (스윙 반영)
+  snap: (beats: number) => number; // 화음 경계를 박 머리에 맞춤
+  maxChord: number; // 화음 하나의 최대 길이 (박)
+}
+
+function createClock(theme: ThemeConfig): AccompanimentClock {
+  const groove = theme.groove;
+  if (!groove) return { beat: 1, time: beats => beats, snap: beats => beats, maxChord: MAX_CHORD_LENGTH };
+  return {
+    beat: beatLength(groove),
+    time: beats => gridTime(groove, beats * groove.subdivision),
+    snap: beats => Math.round(beats),
+    maxChord: groove.beatsPerBar * Math.max(1, Math.floor(MAX_CHORD_LENGTH / barLength(groove))),
+  };
+}
+
+// [start, end)박을 maxChord 이하의 같은 길이(그루브 모드면 박 머리에 맞춘) 구간으로 나눈 경계
+const splitBeats = (clock: AccompanimentClock, start: number, end: number): number[] => {
+  const parts = Math.max(1, Math.ceil((end - start) / clock.maxChord - 1e-9));
+  return Array.from({ length: parts + 1 }, (_, part) =>
+    part === parts ? end : clock.snap(start + (part * (end - start)) / parts)
+  );
+};
+
+/**
+ * 반주 음 하나의 최대 길이(초) — 탐색 시 이만큼 앞에서 시작한 음까지 다시 채운다.
+ */
+export function maxAccompanimentNote(theme: ThemeConfig): number {
+  const clock = createClock(theme);
+  return (clock.maxChord + 1 + PAD_OVERLAP) * clock.beat;
+}
+
+const resolveScale = (theme: ThemeConfig) => (theme.scale && theme.scale.length > 0 ? theme.scale : [0, 2, 4, 7, 9]);
+
+/**
+ * 무드에 맞는 진행을 고르고, 모르는 무드면 스케일의 3도(단3도만 있으면 어둡게)로 정한다.
+ */
+export function chooseProgression(theme: ThemeConfig): number[] {
+  const match = MOOD_PROGRESSIONS.find(([pattern]) => pattern.test(theme.mood));
+  if (match) return PROGRESSIONS[match[1]];
+  const scale = resolveScale(theme);
+  return scale.includes(3) && !scale.includes(4) ? PROGRESSIONS.dark : PROGRESSIONS.bright;
+}
+
+// 스케일 음 degree 위에 한 칸 건너 세 음 (스케일 끝을 넘으면 한 옥타브 위)
+const chordOnDegree = (scale: number[], degree: number): number[] =>
+  [0, 2, 4].map(step => {
+    const index = (degree % scale.length) + step;
+    return scale[index % scale.length] + 12 * Math.floor(index / scale.length);
+  });
+
+/**
+ * 타임라인을 화음 구간으로 나눈다. 단어 간격이 끝나는 곳(다음 단어 첫 음)마다 진행의 다음 화음으로,
+ * MAX_CHORD_LENGTH보다 긴 단어는 같은 길이(그루브 모드면 마디)로 나눠 화음을 더 바꾼다.
+ * 구간은 타임라인 끝까지 빈틈없이 이어진다.
+ */
+export function buildChordSections(events: PlaybackEvent[], theme: ThemeConfig): ChordSection[] {
+  const last = events[events.length - 1];
+  if (!last) return [];
+  const clock = createClock(theme);
+  const total = clock.snap((last.startTime + last.duration) / clock.beat);
+  const scale = resolveScale(theme);
+  const progression = chooseProgression(theme);
+
+  // 공백이 연달아 있으면 마지막 간격 뒤에서만 (다음 단어 첫 음)
+  const wordStarts = events
+    .filter((event, i) => event.symbol === MorseSymbol.WORD_SPACE && events[i + 1]?.symbol !== MorseSymbol.WORD_SPACE)
+    .map(event => clock.snap((event.startTime + event.duration) / clock.beat))
+    .filter(beats => beats > 0 && beats < total);
+  const boundaries = [0, ...wordStarts, total];
+
+  const sections: ChordSection[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    if (boundaries[i + 1] <= boundaries[i]) continue;
+    const parts = splitBeats(clock, boundaries[i], boundaries[i + 1]);
+    for (let part = 0; part < parts.length - 1; part++) {
+      sections.push({
+        startTime: parts[part] * clock.beat,
+        duration: (parts[part + 1] - parts[part]) * clock.beat,
+        chord: chordOnDegree(scale, progression[sections.length % progression.length]),
+      });
+    }
+  }
+  return sections;
+}
+
+type StyleNote = { semitone: number; startTime: number; duration: number; velocity: number };
+
+// 스타일별로 화음 하나를 [start, start + length)박 구간에 펼침 (시각·길이 모두 박)
+const STYLE_NOTES: Record<Exclude<AccompanimentStyle, 'silent'>, (chord: number[], start: number, length: number) => StyleNote[]> = {
+  pad: (chord, start, length) =>
+    chord.map(semitone => ({ semitone, startTime: start, duration: length + PAD_OVERLAP, velocity: 0.6 })),
+
+  // 1-3-5-8-5-3 순서로 ARPEGGIO_STEP마다 한 음
+  arpeggio: ([root, third, fifth], start, length) => {
+    const pattern = [root, third, fifth, root + 12, fifth, third];
+    const steps = Math.ceil(length / ARPEGGIO_STEP - 1e-9);
+    return Array.from({ length: steps }, (_, step) => ({
+      semitone: pattern[step % pattern.length],
+      startTime: start + step * ARPEGGIO_STEP,
+      duration: ARPEGGIO_NOTE,
+      velocity: 1,
+    }));
+  },
+
+  // 한 옥타브 아래 근음을 구간 내내 + 화음을 박마다 짧게
+  'bass-chords': (chord, start, length) => {
+    const stabs = Math.ceil(length / CHORD_STAB_INTERVAL - 1e-9);
+    return [
+      { semitone: chord[0] - 12, startTime: start, duration: length + BASS_OVERLAP, velocity: 1 },
+      ...Array.from({ length: stabs }, (_, stab) =>
+        chord.map(semitone => ({
+          semitone,
+          startTime: start + stab * CHORD_STAB_INTERVAL,
+          duration: CHORD_STAB_NOTE,
+          velocity: 0.45,
+        }))
+      ).flat(),
+    ];
+  },
+};
+
+/**
+ * 시작 시각이 [fromTime, toTime) 안에 드는 반주 음을 만든다 (반복 전체 기준 시각).
+ * 회차마다 같은 화음 구간을 되풀이하고, 회차 사이 간격과 마지막 회차 뒤 PAD_TAIL 동안은 마지막 화음을 이어 간다.
+ * 음 위치는 구간 경계와 회차 시작부터의 박으로만 정해지므로, 시간을 나눠 만들어도 이어 붙이면 한 번에 만든 것과 같다.
+ */
+export function buildAccompaniment(
+  theme: ThemeConfig,
+  sections: ChordSection[],
+  toTime: number,
+  fromTime: number = 0,
+  loop: AccompanimentLoop = SINGLE_PASS
+): PadNote[] {
+  const style = theme.accompaniment ?? DEFAULT_ACCOMPANIMENT;
+  if (style === 'silent' || sections.length === 0) return [];
+
+  const clock = createClock(theme);
+  const last = sections[sections.length - 1];
+  const passLength = last.startTime + last.duration;
+  const baseFreq = theme.baseFrequency * 0.5;
+  const notes: PadNote[] = [];
+
+  // 마지막 회차의 꼬리는 다음 회차 자리까지, 스윙한 음은 회차 경계를 조금 넘을 수 있으므로 한 박 앞에서부터 찾음
+  const firstPass =
+    loop.period > 0
+      ? Math.min(Math.max(0, Math.floor((fromTime - clock.beat) / loop.period)), loop.repeatCount - 1)
+      : 0;
+  for (let pass = firstPass; pass < loop.repeatCount; pass++) {
+    const passStart = pass * loop.period;
+    if (passStart >= toTime) break;
+    const passEnd = pass === loop.repeatCount - 1 ? passStart + passLength + PAD_TAIL : passStart + loop.period;
+
+    sections.forEach((section, i) => {
+      const start = section.startTime / clock.beat;
+      const end = i === sections.length - 1 ? (passEnd - passStart) / clock.beat : start + section.duration / clock.beat;
+      // 스윙은 한 칸보다 짧게 늦추므로 한 박 여유를 두고 건너뜀
+      if (passStart + (end + 1) * clock.beat <= fromTime || passStart + start * clock.beat >= toTime) return;
+
+      const parts = splitBeats(clock, clock.snap(start), end);
+      for (let part = 0; part < parts.length - 1; part++) {
+        STYLE_NOTES[style](section.chord, parts[part], parts[part + 1] - parts[part]).forEach(note => {
+          const startTime = passStart + clock.time(note.startTime);
+          if (startTime < fromTime || startTime >= toTime) return;
+          notes.push({
+            startTime,
+            duration: note.duration * clock.beat,
+            frequency: baseFreq * Math.pow(2, note.semitone / 12),
+            velocity: note.velocity,
+          });
+        });
+      }
+    });
+  }
+  return notes;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { exportPresetsJson, mergePresets, parsePresetsJson } from './customPresets';
+import { sanitizePresetTheme } from './themeValidation';
+
+const preset = (id: string, label = 'Mine') => ({ id, label, theme: sanitizePresetTheme({}) });
+
+describe('parsePresetsJson', () => {
+  it('keeps custom ids from an exported file', () => {
+    const [imported] = parsePresetsJson(exportPresetsJson([preset('custom-abc-1234')]));
+    expect(imported.id).toBe('custom-abc-1234');
+  });
+
+  it('regenerates ids that are not custom ids or collide with a style preset', () => {
+    const json = JSON.stringify([preset('dreamy'), preset('custom-serene'), preset('')]);
+    const imported = parsePresetsJson(json, ['dreamy', 'custom-serene']);
+    expect(imported).toHaveLength(3);
+    imported.forEach(p => expect(p.id).toMatch(/^custom-/));
+    expect(imported.map(p => p.id)).not.toContain('custom-serene');
+  });
+
+  it('throws on files without presets', () => {
+    expect(() => parsePresetsJson('{"version":1}')).toThrow();
+  });
+});
+
+describe('mergePresets', () => {
+  it('overwrites presets with the same id and appends the rest', () => {
+    const merged = mergePresets([preset('custom-a', 'Old'), preset('custom-b')], [preset('custom-a', 'New')]);
+    expect(merged.map(p => [p.id, p.label])).toEqual([['custom-b', 'Mine'], ['custom-a', 'New']]);
+  });
+});
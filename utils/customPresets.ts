@@ -0,0 +1,73 @@
+import { CustomPreset } from '../types';
+import { sanitizePresetTheme, truncate } from './themeValidation';
+
+// 사용자 프리셋: localStorage 보관 + JSON 내보내기/가져오기
+
+const STORAGE_KEY = 'morse-melody.customPresets';
+export const PRESETS_FILE_VERSION = 1;
+const MAX_LABEL_LENGTH = 32;
+
+const ID_PREFIX = 'custom-';
+
+export const createPresetId = () => `${ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// 이름이 없거나 형식이 틀린 항목은 버리고, 테마 값은 검사해서 받는다
+const sanitizePresets = (raw: unknown): CustomPreset[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item): CustomPreset[] => {
+    if (!item || typeof item !== 'object') return [];
+    const { id, label, theme } = item as Record<string, unknown>;
+    const name = typeof label === 'string' ? truncate(label.trim(), MAX_LABEL_LENGTH) : '';
+    if (!name) return [];
+    return [{ id: typeof id === 'string' && id ? id : createPresetId(), label: name, theme: sanitizePresetTheme(theme) }];
+  });
+};
+
+/**
+ * 저장된 프리셋을 읽는다. 저장한 적이 없으면 빈 목록, 저장소를 쓸 수 없거나 내용이 깨졌으면 null.
+ */
+export function loadCustomPresets(): CustomPreset[] | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitizePresets(JSON.parse(stored)) : [];
+  } catch (_) {
+    return null;
+  }
+}
+
+/**
+ * 프리셋 목록을 저장한다. 저장 공간이 없거나 저장소가 막혀 있으면 false.
+ */
+export function saveCustomPresets(presets: CustomPreset[]): boolean {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
+
+export function exportPresetsJson(presets: CustomPreset[]): string {
+  return JSON.stringify({ version: PRESETS_FILE_VERSION, presets }, null, 2);
+}
+
+/**
+ * 내보낸 JSON(또는 프리셋 배열만 있는 JSON)을 읽는다. 형식이 틀리면 Error를 던진다.
+ * custom- 형식이 아니거나 기본 스타일 프리셋(reservedIds)과 겹치는 id는 새로 만든다.
+ */
+export function parsePresetsJson(json: string, reservedIds: readonly string[] = []): CustomPreset[] {
+  const data: unknown = JSON.parse(json);
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown } | null)?.presets;
+  if (!Array.isArray(list)) throw new Error('No presets found in file');
+  return sanitizePresets(list).map(preset =>
+    preset.id.startsWith(ID_PREFIX) && !reservedIds.includes(preset.id) ? preset : { ...preset, id: createPresetId() }
+  );
+}
+
+/**
+ * 가져온 프리셋을 합친다. id가 같으면 가져온 쪽으로 덮어쓴다.
+ */
+export function mergePresets(current: CustomPreset[], incoming: CustomPreset[]): CustomPreset[] {
+  const incomingIds = new Set(incoming.map(p => p.id));
+  return [...current.filter(p => !incomingIds.has(p.id)), ...incoming];
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { MorseSymbol } from '../types';
+import { decodeCwSamples } from './cwDecoder';
+import { textToMorse } from './morseMapping';
+
+const SAMPLE_RATE = 8000;
+const RAMP_SECONDS = 0.004; // 키 클릭을 막는 짧은 상승·하강
+
+// 재현 가능한 잡음 (mulberry32)
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * 텍스트를 ITU 타이밍(점 = 1.2 / wpm 초)으로 키잉한 사인파 PCM. 앞뒤에 0.5초 무음, 약한 백색 잡음.
+ */
+function keyedSine(text: string, wpm: number, frequency: number, noise: number = 0.02): Float32Array {
+  const unit = 1.2 / wpm;
+  const marks: [number, number][] = []; // [시작, 길이] 초
+  let time = 0.5;
+  textToMorse(text).morse.split('').forEach(symbol => {
+    if (symbol === MorseSymbol.DOT || symbol === MorseSymbol.DASH) {
+      const length = symbol === MorseSymbol.DOT ? unit : 3 * unit;
+      marks.push([time, length]);
+      time += length + unit;
+    } else if (symbol === MorseSymbol.SPACE) {
+      time += 2 * unit; // 요소 간격 1 + 2 = 문자 간격 3
+    } else if (symbol === MorseSymbol.WORD_SPACE) {
+      time += 2 * unit; // 앞뒤 문자 간격과 합쳐 단어 간격 7
+    }
+  });
+
+  const random = createRandom(42);
+  const samples = new Float32Array(Math.ceil((time + 0.5) * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) samples[i] = (random() * 2 - 1) * noise;
+  marks.forEach(([start, length]) => {
+    const from = Math.round(start * SAMPLE_RATE);
+    const count = Math.round(length * SAMPLE_RATE);
+    for (let i = 0; i < count; i++) {
+      const t = i / SAMPLE_RATE;
+      const envelope = Math.min(1, t / RAMP_SECONDS, (length - t) / RAMP_SECONDS);
+      samples[from + i] += 0.5 * envelope * Math.sin(2 * Math.PI * frequency * ((from + i) / SAMPLE_RATE));
+    }
+  });
+  return samples;
+}
+
+describe('decodeCwSamples', () => {
+  it.each([12, 18, 25])('decodes a keyed sine at %i WPM', wpm => {
+    const result = decodeCwSamples(keyedSine('CQ CQ DE K1ABC', wpm, 700), { sampleRate: SAMPLE_RATE, initialWpm: 20 });
+    expect(result.text).toBe('CQ CQ DE K1ABC');
+    expect(result.wpm).toBeGreaterThan(wpm * 0.8);
+    expect(result.wpm).toBeLessThan(wpm * 1.2);
+  });
+
+  it('tracks the tone frequency within the search step', () => {
+    const result = decodeCwSamples(keyedSine('PARIS PARIS', 20, 640), { sampleRate: SAMPLE_RATE });
+    expect(result.text).toBe('PARIS PARIS');
+    expect(Math.abs((result.frequency ?? 0) - 640)).toBeLessThanOrEqual(20);
+  });
+
+  it('decodes Hangul jamo back into syllables', () => {
+    const result = decodeCwSamples(keyedSine('안녕 하세요', 15, 600), { sampleRate: SAMPLE_RATE, alphabet: 'hangul', initialWpm: 15 });
+    expect(result.text).toBe('안녕 하세요');
+  });
+
+  it('returns nothing for noise alone', () => {
+    const result = decodeCwSamples(keyedSine('', 20, 700, 0.05), { sampleRate: SAMPLE_RATE });
+    expect(result.text).toBe('');
+    expect(result.elements).toEqual([]);
+  });
+});
@@ -0,0 +1,255 @@
+import { TimingUnits } from './morseTiming';
+import { KeyedElement, KeyedMorseDecoder } from './keyer';
+import { MorseAlphabet } from './morseMapping';
+
+// 녹음된 CW 톤 → 점·대시 → 텍스트
+// PCM 샘플(Float32Array)만 받는 순수 로직 — 마이크/파일 입력은 services/cwListener.ts에서 연결
+
+export interface CwDecoderOptions {
+  sampleRate: number;
+  alphabet?: MorseAlphabet;
+  initialWpm?: number; // 속도를 추정하기 전 첫 요소 분류에 쓰는 값
+  minFrequency?: number; // 톤 탐색 범위 (Hz)
+  maxFrequency?: number;
+}
+
+export interface CwDecodeResult {
+  text: string;
+  elements: KeyedElement[];
+  frequency: number | null; // 추적한 톤 주파수 (Hz)
+  wpm: number;
+}
+
+const BLOCK_SECONDS = 0.01; // 검출 단위 (10ms → 30 WPM 점도 네 블록)
+const FREQUENCY_STEP = 20; // 후보 주파수 간격 (Hz)
+const RETUNE_RATIO = 4; // 다른 후보가 현재 추적 주파수보다 6dB 이상 세면 그쪽으로 이동
+const SILENCE_DB = -120;
+const SIGNAL_DECAY_DB = 0.05; // 블록당 신호 레벨 감쇠 (= 5 dB/s)
+const NOISE_RISE_DB = 0.05; // 블록당 잡음 바닥 상승
+const LEVEL_ATTACK = 0.2; // 신호는 올라갈 때, 잡음은 내려갈 때 따라가는 비율 (순간 튀는 값 무시)
+const MIN_SNR_DB = 10; // 신호와 잡음 차이가 이보다 작으면 톤 없음으로 봄
+const HYSTERESIS_DB = 1.5;
+const MARK_HISTORY = 12; // 속도 추정에 쓰는 최근 요소 수
+
+/**
+ * Goertzel 알고리즘으로 한 주파수 성분의 진폭(0~1, 사인파 진폭 기준)을 구한다.
+ */
+export function goertzelAmplitude(
+  samples: Float32Array,
+  start: number,
+  length: number,
+  frequency: number,
+  sampleRate: number
+): number {
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let s1 = 0;
+  let s2 = 0;
+  for (let i = start; i < start + length; i++) {
+    const s0 = samples[i] + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+  const power = s1 * s1 + s2 * s2 - coeff * s1 * s2;
+  return (2 * Math.sqrt(Math.max(power, 0))) / length;
+}
+
+const toDb = (amplitude: number) => (amplitude > 0 ? Math.max(20 * Math.log10(amplitude), SILENCE_DB) : SILENCE_DB);
+
+// 점 길이 하나로 표준 비율(1/3/1/3/7)의 단위를 만든다
+const unitsFromDot = (dot: number, dash: number = dot * 3): TimingUnits => ({
+  dot,
+  dash,
+  elementGap: dot,
+  letterGap: dot * 3,
+  wordGap: dot * 7,
+});
+
+/**
+ * 스트리밍 CW 디코더.
+ * process()에 샘플을 이어서 넣으면 10ms 블록마다 톤 유무를 판정하고, 켜짐/꺼짐 구간을
+ * 점·대시로 바꿔 KeyedMorseDecoder로 해독한다.
+ * - 주파수: 탐색 범위를 FREQUENCY_STEP 간격으로 훑어 가장 센 톤을 따라감
+ * - 레벨: 신호 최대치와 잡음 바닥을 따로 추적해 그 중간을 문턱으로 씀 (녹음 음량과 무관)
+ * - 속도: 최근 요소 길이를 짧은/긴 두 무리로 나눠 점·대시 길이를 추정
+ */
+export class CwDecoder {
+  private readonly sampleRate: number;
+  private readonly blockSize: number;
+  private readonly candidates: number[];
+  private readonly decoder: KeyedMorseDecoder;
+
+  private pending = new Float32Array(0); // 블록 단위로 자르고 남은 샘플
+  private blockIndex = 0;
+  private trackedIndex = 0;
+  private signalDb = SILENCE_DB;
+  private noiseDb = SILENCE_DB;
+  private levelsInitialized = false;
+  private toneOn = false;
+  private markStart = 0;
+  private markEnd: number | null = null;
+  private marks: number[] = [];
+  private gaps: number[] = []; // 요소 사이 꺼짐 길이 (가장 짧은 값 ≈ 점 길이)
+  private toneFrequency: number | null = null;
+  private units: TimingUnits;
+  private elements: KeyedElement[] = [];
+
+  constructor(options: CwDecoderOptions) {
+    const { sampleRate, alphabet = 'latin', initialWpm = 20, minFrequency = 300, maxFrequency = 1200 } = options;
+    this.sampleRate = sampleRate;
+    this.blockSize = Math.max(1, Math.round(sampleRate * BLOCK_SECONDS));
+    this.candidates = [];
+    for (let f = minFrequency; f <= maxFrequency; f += FREQUENCY_STEP) this.candidates.push(f);
+    this.units = unitsFromDot(1.2 / initialWpm);
+    this.decoder = new KeyedMorseDecoder(this.units, alphabet);
+  }
+
+  public setAlphabet(alphabet: MorseAlphabet) {
+    this.decoder.setAlphabet(alphabet);
+  }
+
+  // 새 샘플을 넣고, 이번에 확정된 점·대시를 돌려준다
+  public process(samples: Float32Array): KeyedElement[] {
+    const data = new Float32Array(this.pending.length + samples.length);
+    data.set(this.pending);
+    data.set(samples, this.pending.length);
+
+    const before = this.elements.length;
+    let offset = 0;
+    for (; offset + this.blockSize <= data.length; offset += this.blockSize) {
+      this.processBlock(data, offset);
+    }
+    this.pending = data.slice(offset);
+    return this.elements.slice(before);
+  }
+
+  // 입력 끝: 켜져 있던 톤을 닫고 마지막 글자까지 확정
+  public flush(): KeyedElement[] {
+    const before = this.elements.length;
+    const now = this.getTime();
+    if (this.toneOn) this.endMark(now);
+    this.decoder.update(now + this.units.wordGap);
+    return this.elements.slice(before);
+  }
+
+  public getText(): string {
+    return this.decoder.getText();
+  }
+
+  public getPendingCode(): string {
+    return this.decoder.getPendingCode();
+  }
+
+  public getElements(): KeyedElement[] {
+    return this.elements;
+  }
+
+  public getFrequency(): number | null {
+    return this.toneFrequency;
+  }
+
+  public getWpm(): number {
+    return 1.2 / this.units.dot;
+  }
+
+  // 지금까지 처리한 블록 기준 시각 (초, 입력 시작 = 0)
+  public getTime(): number {
+    return this.blockIndex * (this.blockSize / this.sampleRate);
+  }
+
+  public isToneOn(): boolean {
+    return this.toneOn;
+  }
+
+  private processBlock(data: Float32Array, offset: number) {
+    const amplitudes = this.candidates.map(f => goertzelAmplitude(data, offset, this.blockSize, f, this.sampleRate));
+
+    let peak = 0;
+    amplitudes.forEach((a, i) => {
+      if (a > amplitudes[peak]) peak = i;
+    });
+    if (amplitudes[peak] ** 2 > amplitudes[this.trackedIndex] ** 2 * RETUNE_RATIO) this.trackedIndex = peak;
+
+    // 이웃 후보까지 보면 후보 사이에 걸친 톤도 놓치지 않음
+    const level = toDb(
+      Math.max(
+        amplitudes[this.trackedIndex],
+        amplitudes[this.trackedIndex - 1] ?? 0,
+        amplitudes[this.trackedIndex + 1] ?? 0
+      )
+    );
+
+    if (!this.levelsInitialized) {
+      this.signalDb = level;
+      this.noiseDb = level;
+      this.levelsInitialized = true;
+    }
+    this.signalDb =
+      level > this.signalDb ? this.signalDb + (level - this.signalDb) * LEVEL_ATTACK : this.signalDb - SIGNAL_DECAY_DB;
+    this.noiseDb =
+      level < this.noiseDb ? this.noiseDb + (level - this.noiseDb) * LEVEL_ATTACK : this.noiseDb + NOISE_RISE_DB;
+
+    const threshold = (this.signalDb + this.noiseDb) / 2;
+    const audible = this.signalDb - this.noiseDb >= MIN_SNR_DB;
+    const on = audible && level > threshold + (this.toneOn ? -HYSTERESIS_DB : HYSTERESIS_DB);
+
+    const now = this.getTime();
+    if (on && !this.toneOn) {
+      this.toneOn = true;
+      this.markStart = now;
+      if (this.markEnd !== null) this.gaps = [...this.gaps, now - this.markEnd].slice(-MARK_HISTORY);
+      this.decoder.keyDown(now);
+    } else if (!on && this.toneOn) {
+      this.endMark(now);
+    }
+    if (this.toneOn) this.toneFrequency = this.candidates[this.trackedIndex];
+    this.blockIndex++;
+    this.decoder.update(this.getTime());
+  }
+
+  private endMark(now: number) {
+    this.toneOn = false;
+    this.markEnd = now;
+    // 분류 전에 이번 요소까지 반영해 속도를 다시 추정
+    this.marks = [...this.marks, now - this.markStart].slice(-MARK_HISTORY);
+    this.units = this.estimateUnits();
+    this.decoder.setUnits(this.units);
+    const element = this.decoder.keyUp(now);
+    if (element) this.elements.push(element);
+  }
+
+  /**
+   * 최근 요소 길이로 점·대시 길이를 추정한다.
+   * 가장 긴 요소가 가장 짧은 요소의 두 배를 넘으면 기하 평균을 경계로 두 무리로 나누고,
+   * 한 종류만 있으면 가장 짧은 요소 간격(≈ 점 길이)과 비교해 점인지 대시인지 정한다.
+   */
+  private estimateUnits(): TimingUnits {
+    const min = Math.min(...this.marks);
+    const max = Math.max(...this.marks);
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+    if (max > min * 2) {
+      const boundary = Math.sqrt(min * max);
+      const dots = this.marks.filter(d => d < boundary);
+      const dashes = this.marks.filter(d => d >= boundary);
+      return unitsFromDot(mean(dots), mean(dashes));
+    }
+    const average = mean(this.marks);
+    const dot = this.gaps.length > 0 ? Math.min(...this.gaps) : this.units.dot;
+    return average < dot * 2 ? unitsFromDot(average) : unitsFromDot(average / 3, average);
+  }
+}
+
+/**
+ * 버퍼 전체를 한 번에 해독한다 (업로드한 파일, 렌더링한 WAV 검증 등).
+ */
+export function decodeCwSamples(samples: Float32Array, options: CwDecoderOptions): CwDecodeResult {
+  const decoder = new CwDecoder(options);
+  decoder.process(samples);
+  decoder.flush();
+  return {
+    text: decoder.getText(),
+    elements: decoder.getElements(),
+    frequency: decoder.getFrequency(),
+    wpm: decoder.getWpm(),
+  };
+}
@@ -0,0 +1,12 @@
+// 브라우저에서 Blob을 파일로 내려받기 (WAV / MIDI 내보내기용)
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // 다운로드가 시작될 시간을 준 뒤 해제
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
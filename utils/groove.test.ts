@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THEME, GrooveSettings } from '../types';
+import { GROOVE_BPM_RANGE, GROOVE_SUBDIVISIONS, GROOVE_SWING_RANGE, ceilToBar, ceilToBeat, gridTime, quantizeUnits } from './groove';
+import { computeTimingUnits, resolveTiming } from './morseTiming';
+
+// 설정 범위의 양 끝과 가운데를 모두 조합
+const GROOVES: GrooveSettings[] = [GROOVE_BPM_RANGE[0], 100, GROOVE_BPM_RANGE[1]].flatMap(bpm =>
+  GROOVE_SUBDIVISIONS.flatMap(({ value: subdivision }) =>
+    [GROOVE_SWING_RANGE[0], 0.2, GROOVE_SWING_RANGE[1]].map(swing => ({ bpm, subdivision, swing, beatsPerBar: 4 }))
+  )
+);
+const TEMPOS = [0.25, 1, 3];
+
+const cases = GROOVES.flatMap(groove =>
+  TEMPOS.map(tempoMultiplier => ({
+    groove,
+    units: computeTimingUnits(resolveTiming({ ...DEFAULT_THEME, tempoMultiplier })),
+    label: `${groove.bpm} BPM, 1/${groove.subdivision * 4}, swing ${groove.swing}, tempo ${tempoMultiplier}`,
+  }))
+);
+
+// n칸짜리 음·쉼이 박 안 어느 칸에서 시작하든 실제로 차지하는 시간 [최소, 최대]
+const soundingRange = (groove: GrooveSettings, steps: number) => {
+  const lengths = Array.from({ length: groove.subdivision }, (_, start) => gridTime(groove, start + steps) - gridTime(groove, start));
+  return [Math.min(...lengths), Math.max(...lengths)];
+};
+
+describe('quantizeUnits', () => {
+  it('gives every element at least one step and keeps the ordering in steps', () => {
+    cases.forEach(({ groove, units, label }) => {
+      const steps = quantizeUnits(units, groove);
+      Object.values(steps).forEach(value => expect(Number.isInteger(value) && value >= 1, label).toBe(true));
+      expect(steps.dot, label).toBeLessThan(steps.dash);
+      expect(steps.elementGap, label).toBeLessThan(steps.letterGap);
+      expect(steps.letterGap, label).toBeLessThan(steps.wordGap);
+    });
+  });
+
+  it('keeps the longest swung dot shorter than the shortest swung dash, and likewise for gaps', () => {
+    cases.forEach(({ groove, units, label }) => {
+      const steps = quantizeUnits(units, groove);
+      const [, longestDot] = soundingRange(groove, steps.dot);
+      const [shortestDash] = soundingRange(groove, steps.dash);
+      const [, longestElementGap] = soundingRange(groove, steps.elementGap);
+      const [shortestLetterGap, longestLetterGap] = soundingRange(groove, steps.letterGap);
+      const [shortestWordGap] = soundingRange(groove, steps.wordGap);
+      expect(longestDot, label).toBeLessThan(shortestDash);
+      expect(longestElementGap, label).toBeLessThan(shortestLetterGap);
+      expect(longestLetterGap, label).toBeLessThan(shortestWordGap);
+    });
+  });
+});
+
+describe('gridTime', () => {
+  it('moves strictly forward and lands every beat on the straight grid', () => {
+    GROOVES.forEach(groove => {
+      const beat = 60 / groove.bpm;
+      for (let i = 0; i < groove.subdivision * 8; i++) {
+        expect(gridTime(groove, i + 1)).toBeGreaterThan(gridTime(groove, i));
+      }
+      [0, 1, 5].forEach(n => expect(gridTime(groove, n * groove.subdivision)).toBeCloseTo(n * beat));
+    });
+  });
+});
+
+describe('ceilToBeat / ceilToBar', () => {
+  it('rounds up to the next beat and bar head, keeping heads as they are', () => {
+    const groove: GrooveSettings = { bpm: 100, subdivision: 4, swing: 0, beatsPerBar: 4 };
+    expect([0, 1, 4, 5].map(i => ceilToBeat(groove, i))).toEqual([0, 4, 4, 8]);
+    expect([0, 1, 16, 17].map(i => ceilToBar(groove, i))).toEqual([0, 16, 16, 32]);
+  });
+});
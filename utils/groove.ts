@@ -0,0 +1,61 @@
+import { GrooveSettings } from '../types';
+import { TimingUnits } from './morseTiming';
+
+// 그루브 모드: 점·대시·간격을 BPM 격자(한 박을 subdivision칸으로 나눈 칸)의 정수 칸으로 맞춘다
+// 멜로디와 반주가 같은 박을 쓰고, 비주얼라이저가 마디선을 그린다
+
+export const GROOVE_BPM_RANGE: [number, number] = [40, 240];
+// 0.5면 엇박에서 시작한 점이 대시만큼 길어질 수 있어서 그보다 조금 작게
+export const GROOVE_SWING_RANGE: [number, number] = [0, 0.45];
+
+export const GROOVE_SUBDIVISIONS: { value: number; label: string }[] = [
+  { value: 2, label: '1/8' },
+  { value: 4, label: '1/16' },
+];
+
+export const DEFAULT_GROOVE: GrooveSettings = { bpm: 100, subdivision: 4, swing: 0, beatsPerBar: 4 };
+
+export const beatLength = (groove: GrooveSettings) => 60 / groove.bpm;
+export const barLength = (groove: GrooveSettings) => beatLength(groove) * groove.beatsPerBar;
+const stepLength = (groove: GrooveSettings) => beatLength(groove) / groove.subdivision;
+
+/**
+ * 초 단위 모스 길이를 칸 수로 반올림한다. 어느 것도 0칸이 되지 않고,
+ * 점 < 대시, 요소 간격 < 문자 간격 < 단어 간격 순서를 지키도록 필요하면 한 칸씩 늘린다.
+ */
+export function quantizeUnits(units: TimingUnits, groove: GrooveSettings): TimingUnits {
+  const step = stepLength(groove);
+  const toSteps = (seconds: number, min: number) => Math.max(min, Math.round(seconds / step));
+  const dot = toSteps(units.dot, 1);
+  const elementGap = toSteps(units.elementGap, 1);
+  const letterGap = toSteps(units.letterGap, elementGap + 1);
+  return {
+    dot,
+    dash: toSteps(units.dash, dot + 1),
+    elementGap,
+    letterGap,
+    wordGap: toSteps(units.wordGap, letterGap + 1),
+  };
+}
+
+/**
+ * 칸 번호 → 타임라인 시각(초). 박 안에서 홀수 번째 칸(엇박)은 칸 길이 × swing만큼 늦게 울린다.
+ * n칸짜리 음의 길이는 (n ± swing)칸이므로 swing < 0.5면 한 칸 더 긴 음보다 항상 짧다.
+ */
+export function gridTime(groove: GrooveSettings, index: number): number {
+  const step = stepLength(groove);
+  const within = ((index % groove.subdivision) + groove.subdivision) % groove.subdivision;
+  return index * step + (Number.isInteger(index) && within % 2 === 1 ? groove.swing * step : 0);
+}
+
+// index 이후(같으면 그대로)의 첫 박·첫 마디 머리 칸
+export const ceilToBeat = (groove: GrooveSettings, index: number) =>
+  Math.ceil(index / groove.subdivision) * groove.subdivision;
+
+export const ceilToBar = (groove: GrooveSettings, index: number) => {
+  const stepsPerBar = groove.subdivision * groove.beatsPerBar;
+  return Math.ceil(index / stepsPerBar) * stepsPerBar;
+};
+
+// 초 → 칸 수 (반올림)
+export const secondsToSteps = (groove: GrooveSettings, seconds: number) => Math.round(seconds / stepLength(groove));
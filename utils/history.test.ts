@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THEME, HistoryEntry, ThemeConfig } from '../types';
+import { MAX_HISTORY_ENTRIES, filterHistory, recordPlay } from './history';
+
+const CALM: ThemeConfig = { ...DEFAULT_THEME, mood: 'Calm' };
+
+// 최근 재생 순으로 count개 (가장 오래된 항목이 마지막)
+const playMany = (count: number, start: HistoryEntry[] = []) => {
+  let entries = start;
+  for (let i = 0; i < count; i++) entries = recordPlay(entries, `MSG ${i}`, DEFAULT_THEME, 1, 1000 + i).entries;
+  return entries;
+};
+
+describe('recordPlay', () => {
+  it('adds a new entry at the front', () => {
+    const first = recordPlay([], 'HELLO', DEFAULT_THEME, 2, 1000);
+    const second = recordPlay(first.entries, 'WORLD', DEFAULT_THEME, 3, 2000);
+    expect(second.entries.map(entry => entry.text)).toEqual(['WORLD', 'HELLO']);
+    expect(second.upsert).toMatchObject({ text: 'WORLD', duration: 3, playedAt: 2000, favorite: false });
+    expect(second.removed).toEqual([]);
+  });
+
+  it('updates the existing entry when the same text and theme are played again', () => {
+    const first = recordPlay([], 'HELLO', DEFAULT_THEME, 2, 1000);
+    const other = recordPlay(first.entries, 'WORLD', DEFAULT_THEME, 3, 2000);
+    const favorite = other.entries.map(entry => (entry.text === 'HELLO' ? { ...entry, favorite: true } : entry));
+    const again = recordPlay(favorite, 'HELLO', DEFAULT_THEME, 2.5, 3000);
+
+    expect(again.entries).toHaveLength(2);
+    expect(again.upsert).toMatchObject({ id: first.upsert.id, duration: 2.5, playedAt: 3000, favorite: true });
+    expect(again.entries[0].id).toBe(first.upsert.id);
+  });
+
+  it('keeps the same text with a different theme as a separate entry', () => {
+    const first = recordPlay([], 'HELLO', DEFAULT_THEME, 2, 1000);
+    const second = recordPlay(first.entries, 'HELLO', CALM, 2, 2000);
+    expect(second.entries).toHaveLength(2);
+    expect(second.upsert.id).not.toBe(first.upsert.id);
+  });
+
+  it(`trims non-favorite entries beyond ${MAX_HISTORY_ENTRIES}, oldest first`, () => {
+    const full = playMany(MAX_HISTORY_ENTRIES);
+    const next = recordPlay(full, 'NEW', DEFAULT_THEME, 1, 5000);
+    expect(next.entries).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(next.removed.map(entry => entry.text)).toEqual(['MSG 0']);
+    expect(next.entries.some(entry => entry.text === 'MSG 0')).toBe(false);
+  });
+
+  it('never trims favorites and does not count them toward the limit', () => {
+    const favorites = playMany(3).map(entry => ({ ...entry, favorite: true }));
+    const entries = playMany(MAX_HISTORY_ENTRIES + 5, favorites.map(entry => ({ ...entry, text: `FAV ${entry.text}` })));
+    expect(entries.filter(entry => entry.favorite)).toHaveLength(3);
+    expect(entries.filter(entry => !entry.favorite)).toHaveLength(MAX_HISTORY_ENTRIES);
+  });
+});
+
+describe('filterHistory', () => {
+  const entries = [
+    recordPlay([], 'Hello World', DEFAULT_THEME, 1, 1000).upsert,
+    { ...recordPlay([], 'SOS', CALM, 1, 2000).upsert, favorite: true },
+  ];
+
+  it('matches text and mood case-insensitively', () => {
+    expect(filterHistory(entries, 'hello').map(entry => entry.text)).toEqual(['Hello World']);
+    expect(filterHistory(entries, ' calm ').map(entry => entry.text)).toEqual(['SOS']);
+    expect(filterHistory(entries, '')).toHaveLength(2);
+  });
+
+  it('can limit the results to favorites', () => {
+    expect(filterHistory(entries, '', true).map(entry => entry.text)).toEqual(['SOS']);
+    expect(filterHistory(entries, 'hello', true)).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { HistoryEntry, ThemeConfig } from '../types';
+
+// 재생 기록 목록을 다루는 순수 함수 (저장은 services/historyStore.ts)
+
+// 즐겨찾기가 아닌 기록은 최근 것만 남긴다
+export const MAX_HISTORY_ENTRIES = 100;
+
+const createHistoryId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const sameTheme = (a: ThemeConfig, b: ThemeConfig) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * 재생한 메시지를 기록에 반영한다.
+ * 같은 텍스트·테마를 다시 재생하면 새 항목 대신 기존 항목의 재생 시각만 갱신한다 (즐겨찾기 유지).
+ * 바뀐 항목(upsert)과 개수 제한으로 밀려난 항목(removed)을 함께 돌려준다.
+ */
+export function recordPlay(
+  entries: HistoryEntry[],
+  text: string,
+  theme: ThemeConfig,
+  duration: number,
+  playedAt: number = Date.now()
+): { entries: HistoryEntry[]; upsert: HistoryEntry; removed: HistoryEntry[] } {
+  const existing = entries.find(entry => entry.text === text && sameTheme(entry.theme, theme));
+  const upsert: HistoryEntry = existing
+    ? { ...existing, duration, playedAt }
+    : { id: createHistoryId(), text, theme, duration, playedAt, favorite: false };
+
+  const next = [upsert, ...entries.filter(entry => entry.id !== upsert.id)];
+  const removed = next.filter(entry => !entry.favorite).slice(MAX_HISTORY_ENTRIES);
+  return {
+    entries: next.filter(entry => !removed.includes(entry)),
+    upsert,
+    removed,
+  };
+}
+
+/**
+ * 텍스트와 무드 이름으로 검색 (대소문자 무시). favoritesOnly면 즐겨찾기만.
+ */
+export function filterHistory(entries: HistoryEntry[], query: string, favoritesOnly: boolean = false): HistoryEntry[] {
+  const needle = query.trim().toLowerCase();
+  return entries.filter(
+    entry =>
+      (!favoritesOnly || entry.favorite) &&
+      (!needle || entry.text.toLowerCase().includes(needle) || entry.theme.mood.toLowerCase().includes(needle))
+  );
+}
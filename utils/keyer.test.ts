@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { MorseSymbol } from '../types';
+import { IambicKeyer, KeyedElement, KeyedMorseDecoder, classifyGap, classifyMark } from './keyer';
+import { TimingUnits } from './morseTiming';
+
+const UNITS: TimingUnits = { dot: 0.1, dash: 0.3, elementGap: 0.1, letterGap: 0.3, wordGap: 0.7 };
+
+// straight key로 부호 한 글자를 정확한 길이로 치고, 마지막 요소가 끝난 시각을 돌려줌
+const keyLetter = (decoder: KeyedMorseDecoder, code: string, start: number) => {
+  let t = start;
+  Array.from(code).forEach((symbol, i) => {
+    if (i > 0) t += UNITS.elementGap;
+    decoder.keyDown(t);
+    t += symbol === MorseSymbol.DASH ? UNITS.dash : UNITS.dot;
+    decoder.keyUp(t);
+  });
+  return t;
+};
+
+// 1ms 간격으로 키어를 돌려 나온 요소를 모음. 패들은 releaseAt에 둘 다 놓음
+const runKeyer = (keyer: IambicKeyer, releaseAt: number, until: number) => {
+  const elements: KeyedElement[] = [];
+  keyer.setPaddles(true, true, 0);
+  for (let ms = 0; ms <= until * 1000; ms++) {
+    const t = ms / 1000;
+    if (ms === releaseAt * 1000) keyer.setPaddles(false, false, t);
+    const element = keyer.update(t);
+    if (element) elements.push(element);
+  }
+  return elements.map(element => element.symbol).join('');
+};
+
+describe('mark and gap classification', () => {
+  it('splits dots from dashes halfway between their lengths', () => {
+    expect(classifyMark(0.08, UNITS)).toBe(MorseSymbol.DOT);
+    expect(classifyMark(0.19, UNITS)).toBe(MorseSymbol.DOT);
+    expect(classifyMark(0.21, UNITS)).toBe(MorseSymbol.DASH);
+    expect(classifyMark(0.4, UNITS)).toBe(MorseSymbol.DASH);
+  });
+
+  it('tells element, letter and word gaps apart', () => {
+    expect(classifyGap(0.1, UNITS)).toBe('element');
+    expect(classifyGap(0.3, UNITS)).toBe('letter');
+    expect(classifyGap(0.45, UNITS)).toBe('letter');
+    expect(classifyGap(0.7, UNITS)).toBe('word');
+  });
+});
+
+describe('KeyedMorseDecoder', () => {
+  it('keeps the letter pending until a letter gap has passed', () => {
+    const decoder = new KeyedMorseDecoder(UNITS);
+    const end = keyLetter(decoder, '.-', 0);
+    decoder.update(end + UNITS.elementGap);
+    expect(decoder.getText()).toBe('');
+    expect(decoder.getPendingCode()).toBe('.-');
+
+    decoder.update(end + UNITS.letterGap);
+    expect(decoder.getText()).toBe('A');
+    expect(decoder.getPendingCode()).toBe('');
+  });
+
+  it('separates letters on letter gaps and words on word gaps', () => {
+    const decoder = new KeyedMorseDecoder(UNITS);
+    let t = keyLetter(decoder, '....', 0); // H
+    t = keyLetter(decoder, '..', t + UNITS.letterGap); // I
+    t = keyLetter(decoder, '--', t + UNITS.wordGap); // M
+    t = keyLetter(decoder, '.-', t + UNITS.letterGap); // A
+    decoder.update(t + UNITS.wordGap);
+    expect(decoder.getText()).toBe('HI MA');
+  });
+
+  it('decodes Hangul jamo into syllables', () => {
+    const decoder = new KeyedMorseDecoder(UNITS, 'hangul');
+    let t = keyLetter(decoder, '.-..', 0); // ㄱ
+    t = keyLetter(decoder, '.', t + UNITS.letterGap); // ㅏ
+    decoder.update(t + UNITS.wordGap);
+    expect(decoder.getText()).toBe('가');
+  });
+});
+
+describe('IambicKeyer', () => {
+  it('repeats the element of a single held paddle', () => {
+    const keyer = new IambicKeyer(UNITS, 'iambicA');
+    keyer.setPaddles(true, false, 0);
+    const symbols: string[] = [];
+    for (let ms = 0; ms < 600; ms++) {
+      const element = keyer.update(ms / 1000);
+      if (element) symbols.push(element.symbol);
+    }
+    expect(symbols.join('')).toBe('...');
+  });
+
+  it('alternates while squeezed and stops on release in Mode A', () => {
+    // 점(0–0.1), 대시(0.2–0.5) 도중에 놓음
+    expect(runKeyer(new IambicKeyer(UNITS, 'iambicA'), 0.3, 1.5)).toBe('.-');
+  });
+
+  it('sends one more opposite element after a squeeze release in Mode B', () => {
+    expect(runKeyer(new IambicKeyer(UNITS, 'iambicB'), 0.3, 1.5)).toBe('.-.');
+  });
+
+  it('remembers the opposite paddle pressed during an element', () => {
+    const keyer = new IambicKeyer(UNITS, 'iambicA');
+    keyer.setPaddles(true, false, 0);
+    expect(keyer.update(0)?.symbol).toBe(MorseSymbol.DOT);
+    keyer.setPaddles(true, true, 0.03);
+    keyer.setPaddles(false, false, 0.06);
+    expect(keyer.update(0.2)?.symbol).toBe(MorseSymbol.DASH);
+    expect(keyer.update(0.6)).toBeNull();
+  });
+});
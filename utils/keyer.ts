@@ -0,0 +1,225 @@
+import { MorseSymbol, PlaybackEvent } from '../types';
+import { TimingUnits } from './morseTiming';
+import { MorseAlphabet, composeHangul, morseToText } from './morseMapping';
+
+// 키 입력(Straight key / Iambic paddle) → 점·대시 분류 → 실시간 해독
+// 시간은 모두 호출자가 넘기는 초 단위 (audioCtx.currentTime) — DOM/오디오 없이 동작
+
+export type KeyerMode = 'straight' | 'iambicA' | 'iambicB';
+
+export type KeyedSymbol = MorseSymbol.DOT | MorseSymbol.DASH;
+
+export interface KeyedElement {
+  symbol: KeyedSymbol;
+  startTime: number;
+  duration: number;
+}
+
+export type GapKind = 'element' | 'letter' | 'word';
+
+// 점과 대시의 중간을 경계로 분류 (기준은 현재 WPM의 점·대시 길이)
+export function classifyMark(duration: number, units: TimingUnits): KeyedSymbol {
+  return duration < (units.dot + units.dash) / 2 ? MorseSymbol.DOT : MorseSymbol.DASH;
+}
+
+export function classifyGap(duration: number, units: TimingUnits): GapKind {
+  if (duration < (units.elementGap + units.letterGap) / 2) return 'element';
+  if (duration < (units.letterGap + units.wordGap) / 2) return 'letter';
+  return 'word';
+}
+
+/**
+ * 키 입력으로 들어온 점·대시를 글자로 해독한다.
+ * 마지막 요소가 끝난 뒤 흐른 시간으로 문자/단어 간격을 판단하므로, 입력이 없어도
+ * update(now)를 주기적으로 불러야 마지막 글자가 확정된다.
+ */
+export class KeyedMorseDecoder {
+  private code = ''; // 확정되지 않은 현재 글자의 부호
+  private words: string[][] = [[]];
+  private lastMarkEnd: number | null = null;
+  private markStart: number | null = null;
+
+  constructor(private units: TimingUnits, private alphabet: MorseAlphabet = 'latin') {}
+
+  public setUnits(units: TimingUnits) {
+    this.units = units;
+  }
+
+  public setAlphabet(alphabet: MorseAlphabet) {
+    this.alphabet = alphabet;
+  }
+
+  // Straight key: 누른 시각과 뗀 시각으로 요소 길이를 재서 분류
+  public keyDown(now: number) {
+    this.update(now);
+    this.markStart = now;
+  }
+
+  public keyUp(now: number): KeyedElement | null {
+    if (this.markStart === null) return null;
+    const element = {
+      symbol: classifyMark(now - this.markStart, this.units),
+      startTime: this.markStart,
+      duration: now - this.markStart,
+    };
+    this.markStart = null;
+    this.addElement(element);
+    return element;
+  }
+
+  // Paddle: 키어가 만든 요소는 종류를 이미 알고 있음
+  public addElement(element: KeyedElement) {
+    this.update(element.startTime);
+    this.code += element.symbol;
+    this.lastMarkEnd = element.startTime + element.duration;
+  }
+
+  // 마지막 요소 이후 간격이 문자/단어 간격을 넘었으면 글자·공백 확정
+  public update(now: number) {
+    if (this.lastMarkEnd === null || this.markStart !== null) return;
+    const gap = classifyGap(now - this.lastMarkEnd, this.units);
+    if (gap === 'element') return;
+
+    if (this.code) {
+      // 무선 교신 맥락이므로 -...- 등은 문장부호보다 prosign(<BT>)으로 읽음
+      const { text } = morseToText(this.code, { alphabet: this.alphabet, prosigns: true });
+      this.words[this.words.length - 1].push(text);
+      this.code = '';
+    }
+    if (gap === 'word') {
+      if (this.words[this.words.length - 1].length > 0) this.words.push([]);
+      this.lastMarkEnd = null;
+    }
+  }
+
+  // 현재까지 해독된 텍스트 (입력 중인 부호는 제외)
+  public getText(): string {
+    return this.words
+      .map(chars => (this.alphabet === 'hangul' ? composeHangul(chars) : chars.join('')))
+      .join(' ')
+      .trimEnd();
+  }
+
+  public getPendingCode(): string {
+    return this.code;
+  }
+
+  public reset() {
+    this.code = '';
+    this.words = [[]];
+    this.lastMarkEnd = null;
+    this.markStart = null;
+  }
+}
+
+/**
+ * Iambic 키어: 두 패들 상태로 점·대시를 자동 생성한다.
+ * - 한쪽만 누르면 그 요소를 반복, 둘 다 누르면(squeeze) 번갈아 보냄
+ * - 요소 도중 반대쪽 패들을 새로 누르면 기억했다가 다음에 보냄
+ * - Mode B: squeeze 상태에서 요소 도중 둘 다 놓으면 반대 요소를 하나 더 보냄 (Mode A는 바로 멈춤)
+ */
+export class IambicKeyer {
+  private dit = false;
+  private dah = false;
+  private ditMemory = false;
+  private dahMemory = false;
+  private squeezed = false;
+  private lastSymbol: KeyedSymbol | null = null;
+  private busyUntil = 0; // 현재 요소 + 요소 간격이 끝나는 시각
+
+  constructor(private units: TimingUnits, private mode: 'iambicA' | 'iambicB') {}
+
+  public setUnits(units: TimingUnits) {
+    this.units = units;
+  }
+
+  public setMode(mode: 'iambicA' | 'iambicB') {
+    this.mode = mode;
+  }
+
+  public setPaddles(dit: boolean, dah: boolean, now: number) {
+    const sending = now < this.busyUntil;
+    if (sending) {
+      if (dit && !this.dit && this.lastSymbol === MorseSymbol.DASH) this.ditMemory = true;
+      if (dah && !this.dah && this.lastSymbol === MorseSymbol.DOT) this.dahMemory = true;
+      if (dit && dah) this.squeezed = true;
+    }
+    this.dit = dit;
+    this.dah = dah;
+  }
+
+  // 이전 요소가 끝났으면 다음 요소를 정해서 돌려줌 (보낼 게 없으면 null)
+  public update(now: number): KeyedElement | null {
+    if (now < this.busyUntil) return null;
+
+    const opposite = this.lastSymbol === MorseSymbol.DOT ? MorseSymbol.DASH : MorseSymbol.DOT;
+    let next: KeyedSymbol | null = null;
+    if (this.dit && this.dah) next = this.lastSymbol ? opposite : MorseSymbol.DOT;
+    else if (this.ditMemory) next = MorseSymbol.DOT;
+    else if (this.dahMemory) next = MorseSymbol.DASH;
+    else if (this.dit) next = MorseSymbol.DOT;
+    else if (this.dah) next = MorseSymbol.DASH;
+    else if (this.mode === 'iambicB' && this.squeezed && this.lastSymbol) next = opposite;
+
+    this.ditMemory = false;
+    this.dahMemory = false;
+    this.squeezed = this.dit && this.dah;
+
+    if (!next) {
+      this.lastSymbol = null;
+      return null;
+    }
+
+    const duration = next === MorseSymbol.DOT ? this.units.dot : this.units.dash;
+    this.lastSymbol = next;
+    this.busyUntil = now + duration + this.units.elementGap;
+    return { symbol: next, startTime: now, duration };
+  }
+}
+
+/**
+ * 키 입력·수신한 요소를 비주얼라이저용 타임라인으로 모은다.
+ * 글자가 확정되면(confirmLetter) 그 글자에 속한 요소들에 라벨을 붙이고, 오래된 요소는 버린다.
+ */
+export class KeyedTimeline {
+  private events: PlaybackEvent[] = [];
+  private letterStart = 0; // 아직 글자가 확정되지 않은 첫 이벤트 인덱스
+  private letterCode = '';
+
+  constructor(private maxEvents: number = 200) {}
+
+  // origin: 타임라인 0초에 해당하는 시각 (요소 시각과 같은 시계)
+  public add(element: KeyedElement, origin: number, frequency: number): PlaybackEvent[] {
+    this.events = [
+      ...this.events,
+      {
+        type: 'note',
+        startTime: element.startTime - origin,
+        duration: element.duration,
+        symbol: element.symbol,
+        frequency,
+      },
+    ];
+    this.letterCode += element.symbol;
+    return this.events;
+  }
+
+  public hasPendingLetter(): boolean {
+    return this.letterCode !== '';
+  }
+
+  public confirmLetter(alphabet: MorseAlphabet): PlaybackEvent[] {
+    const char = morseToText(this.letterCode, { alphabet, prosigns: true }).text;
+    const labeled = this.events.map((ev, i) => (i >= this.letterStart ? { ...ev, char } : ev));
+    this.events = labeled.slice(-this.maxEvents);
+    this.letterStart = this.events.length;
+    this.letterCode = '';
+    return this.events;
+  }
+
+  public clear() {
+    this.events = [];
+    this.letterStart = 0;
+    this.letterCode = '';
+  }
+}
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KOCH_ORDER, loadProgress, saveProgress, scoreRound } from './kochTrainer';
+
+describe('scoreRound', () => {
+  it('compares Latin answers case-insensitively per group', () => {
+    const result = scoreRound('KMR SUA', 'kmr sXa', 'en');
+    expect(result.accuracy).toBeCloseTo(5 / 6);
+    expect(result.groups[1][1]).toEqual({ expected: 'U', typed: 'X', correct: false });
+  });
+
+  it('decomposes syllables composed by a Korean IME', () => {
+    expect(scoreRound('ㄱㅏㄴ', '간', 'ko').accuracy).toBe(1);
+  });
+
+  it('decomposes compound jamo composed by a Korean IME', () => {
+    expect(scoreRound('ㅗㅏ', 'ㅘ', 'ko').accuracy).toBe(1);
+    expect(scoreRound('ㄱㅅㅏ ㅡㅣ', 'ㄳㅏ ㅢ', 'ko').accuracy).toBe(1);
+  });
+
+  it('counts missing characters as errors', () => {
+    const result = scoreRound('ㄱㅏㄴ', 'ㄱ', 'ko');
+    expect(result.accuracy).toBeCloseTo(1 / 3);
+    expect(result.groups[0][2].typed).toBe('');
+  });
+});
+
+describe('progress storage', () => {
+  let store: Map<string, string>;
+  beforeEach(() => {
+    store = new Map();
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => void store.set(key, value),
+      },
+    });
+  });
+  afterEach(() => vi.unstubAllGlobals());
+
+  const stored = (value: unknown) => store.set('morse-melody.koch.en', JSON.stringify(value));
+
+  it('round-trips saved progress', () => {
+    const progress = { level: 5, stats: { K: { attempts: 4, errors: 1 } } };
+    expect(saveProgress('en', progress)).toBe(true);
+    expect(loadProgress('en')).toEqual(progress);
+  });
+
+  it('clamps the level to the unlockable range', () => {
+    stored({ level: 0, stats: {} });
+    expect(loadProgress('en').level).toBe(2);
+    stored({ level: 999, stats: {} });
+    expect(loadProgress('en').level).toBe(KOCH_ORDER.en.length);
+  });
+
+  it('drops stats for unknown characters and impossible counts', () => {
+    stored({ level: 3, stats: { K: { attempts: 2, errors: 5 }, M: { attempts: 3, errors: 1 }, 'ㄱ': { attempts: 1, errors: 0 }, R: 'x' } });
+    expect(loadProgress('en').stats).toEqual({ M: { attempts: 3, errors: 1 } });
+  });
+
+  it('reports when progress cannot be saved', () => {
+    vi.stubGlobal('window', {
+      localStorage: {
+        setItem: () => {
+          throw new Error('QuotaExceededError');
+        },
+      },
+    });
+    expect(saveProgress('en', { level: 2, stats: {} })).toBe(false);
+  });
+});
@@ -0,0 +1,181 @@
+import { decomposeHangul, decomposeJamo } from './morseMapping';
+
+// Koch 방식 연습: 적은 문자로 시작해 정확도가 기준을 넘을 때마다 한 글자씩 추가
+
+export type KochLanguage = 'en' | 'ko';
+
+// LCWO에서 쓰는 영문 Koch 순서
+const KOCH_ORDER_EN = [
+  'K', 'M', 'R', 'S', 'U', 'A', 'P', 'T', 'L', 'O', 'W', 'I', '.', 'N', 'J', 'E', 'F', '0',
+  'Y', ',', 'V', 'G', '5', '/', 'Q', '9', 'Z', 'H', '3', '8', 'B', '?', '4', '2', '7', 'C',
+  '1', 'D', '6', 'X',
+];
+
+// 한글 자모: 부호가 뚜렷이 다른 쌍부터, 짧은 모음과 자주 쓰는 자음을 먼저
+const KOCH_ORDER_KO = [
+  'ㄱ', 'ㅏ', 'ㄴ', 'ㅓ', 'ㄷ', 'ㅗ', 'ㄹ', 'ㅜ', 'ㅁ', 'ㅣ', 'ㅂ', 'ㅡ', 'ㅅ', 'ㅇ', 'ㅑ',
+  'ㅈ', 'ㅕ', 'ㅊ', 'ㅛ', 'ㅋ', 'ㅠ', 'ㅌ', 'ㅍ', 'ㅎ', 'ㅐ', 'ㅔ',
+];
+
+export const KOCH_ORDER: Record<KochLanguage, string[]> = {
+  en: KOCH_ORDER_EN,
+  ko: KOCH_ORDER_KO,
+};
+
+export const UNLOCK_ACCURACY = 0.9;
+const INITIAL_LEVEL = 2;
+
+export interface CharStat {
+  attempts: number;
+  errors: number;
+}
+
+export interface KochProgress {
+  level: number; // 열린 문자 수
+  stats: Record<string, CharStat>;
+}
+
+export interface ScoredChar {
+  expected: string;
+  typed: string; // 입력이 모자라면 ''
+  correct: boolean;
+}
+
+export interface RoundResult {
+  accuracy: number; // 0~1
+  groups: ScoredChar[][];
+}
+
+export function createProgress(): KochProgress {
+  return { level: INITIAL_LEVEL, stats: {} };
+}
+
+export function getUnlockedChars(language: KochLanguage, level: number): string[] {
+  const order = KOCH_ORDER[language];
+  return order.slice(0, Math.min(Math.max(level, INITIAL_LEVEL), order.length));
+}
+
+/**
+ * 열린 문자로 무작위 그룹을 만든다 (공백으로 구분 → textToMorse에서 단어 간격).
+ * 가장 최근에 열린 문자는 두 배 자주 나오게 해서 새 글자를 빨리 익히도록 한다.
+ */
+export function generateGroups(
+  chars: string[],
+  groupCount: number = 5,
+  groupSize: number = 5,
+  random: () => number = Math.random
+): string {
+  const pool = chars.length > 0 ? [...chars, chars[chars.length - 1]] : [];
+  const groups: string[] = [];
+  for (let g = 0; g < groupCount; g++) {
+    let group = '';
+    for (let i = 0; i < groupSize; i++) {
+      group += pool[Math.floor(random() * pool.length)] ?? '';
+    }
+    groups.push(group);
+  }
+  return groups.join(' ');
+}
+
+// 입력을 비교 가능한 문자 나열로: 영문은 대문자, 한글은 IME가 조합한 음절과 겹자모(ㅗ+ㅏ → ㅘ, ㄱ+ㅅ → ㄳ)를 자모로 분해
+const normalizeAnswer = (text: string, language: KochLanguage): string[] => {
+  if (language === 'en') return text.toUpperCase().split('');
+  return text.split('').flatMap(char => (/[가-힣]/.test(char) ? decomposeHangul(char) : decomposeJamo(char)));
+};
+
+/**
+ * 출제한 그룹과 입력을 그룹 단위로 맞춰 문자별로 채점한다.
+ * 모자란 문자는 오답, 남는 입력은 무시한다.
+ */
+export function scoreRound(expected: string, typed: string, language: KochLanguage): RoundResult {
+  const expectedGroups = expected.trim().split(/\s+/).filter(Boolean);
+  const typedGroups = typed.trim().split(/\s+/).filter(Boolean);
+
+  let total = 0;
+  let correct = 0;
+  const groups = expectedGroups.map((group, g) => {
+    const want = normalizeAnswer(group, language);
+    const got = normalizeAnswer(typedGroups[g] ?? '', language);
+    return want.map((char, i) => {
+      const typedChar = got[i] ?? '';
+      const isCorrect = typedChar === char;
+      total++;
+      if (isCorrect) correct++;
+      return { expected: char, typed: typedChar, correct: isCorrect };
+    });
+  });
+
+  return { accuracy: total > 0 ? correct / total : 0, groups };
+}
+
+/**
+ * 채점 결과를 누적 통계에 더하고, 정확도가 UNLOCK_ACCURACY 이상이면 다음 문자를 연다.
+ * 새로 열린 문자가 있으면 unlocked로 돌려준다.
+ */
+export function applyRound(
+  progress: KochProgress,
+  result: RoundResult,
+  language: KochLanguage
+): { progress: KochProgress; unlocked?: string } {
+  const stats = { ...progress.stats };
+  result.groups.flat().forEach(({ expected, correct }) => {
+    const prev = stats[expected] ?? { attempts: 0, errors: 0 };
+    stats[expected] = { attempts: prev.attempts + 1, errors: prev.errors + (correct ? 0 : 1) };
+  });
+
+  const order = KOCH_ORDER[language];
+  if (result.accuracy >= UNLOCK_ACCURACY && progress.level < order.length) {
+    return { progress: { level: progress.level + 1, stats }, unlocked: order[progress.level] };
+  }
+  return { progress: { ...progress, stats } };
+}
+
+// ---------------------------------------------------------------------------
+// Persistence (localStorage)
+// ---------------------------------------------------------------------------
+
+const storageKey = (language: KochLanguage) => `morse-melody.koch.${language}`;
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// 순서표에 있는 문자의, 오답 수가 시도 수를 넘지 않는 통계만 받는다
+const sanitizeStats = (raw: unknown, language: KochLanguage): Record<string, CharStat> => {
+  if (!raw || typeof raw !== 'object') return {};
+  const stats: Record<string, CharStat> = {};
+  Object.entries(raw as Record<string, unknown>).forEach(([char, stat]) => {
+    if (!KOCH_ORDER[language].includes(char) || !stat || typeof stat !== 'object') return;
+    const { attempts, errors } = stat as Record<string, unknown>;
+    if (isCount(attempts) && isCount(errors) && errors <= attempts) stats[char] = { attempts, errors };
+  });
+  return stats;
+};
+
+/**
+ * 저장된 진도를 읽는다. 레벨은 [INITIAL_LEVEL, 순서표 길이]로 자르고, 깨진 값은 처음 상태로.
+ */
+export function loadProgress(language: KochLanguage): KochProgress {
+  try {
+    const raw = window.localStorage.getItem(storageKey(language));
+    if (!raw) return createProgress();
+    const parsed = JSON.parse(raw) as Record<string, unknown> | null;
+    const level = typeof parsed?.level === 'number' && Number.isFinite(parsed.level) ? Math.floor(parsed.level) : INITIAL_LEVEL;
+    return {
+      level: Math.min(Math.max(level, INITIAL_LEVEL), KOCH_ORDER[language].length),
+      stats: sanitizeStats(parsed?.stats, language),
+    };
+  } catch (_) {
+    return createProgress();
+  }
+}
+
+/**
+ * 진도를 저장한다. 저장 공간이 없거나 저장소가 막혀 있으면 false (이번 세션에서만 유지).
+ */
+export function saveProgress(language: KochLanguage, progress: KochProgress): boolean {
+  try {
+    window.localStorage.setItem(storageKey(language), JSON.stringify(progress));
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
@@ -0,0 +1,164 @@
+import { PadNote, PlaybackEvent, ThemeConfig } from '../types';
+import { getVoice } from './voices';
+
+// Standard MIDI File (Type 1) 직렬화 — 브라우저 API 없이 동작하는 순수 함수
+
+const PPQ = 480; // ticks per quarter note
+const BASE_BPM = 120; // tempoMultiplier 1.0 기준 템포
+const PITCH_BEND_RANGE = 2; // 반음 (RPN 0으로 설정)
+
+const MELODY_CHANNEL = 0;
+const PAD_CHANNEL = 1;
+
+// General MIDI 프로그램 번호 (0-based) — 멜로디는 음색 정의의 midiProgram
+const PAD_PROGRAM = 89; // Pad 2 (warm)
+
+interface MidiNote {
+  startTime: number;
+  duration: number;
+  frequency: number;
+  velocity?: number; // 0~1 (기본 1 → MIDI 96)
+}
+
+interface TrackEvent {
+  tick: number;
+  order: number; // 같은 tick 안에서의 순서 (note off → 설정 → note on)
+  data: number[];
+}
+
+/**
+ * 주파수를 가장 가까운 MIDI 음 번호와 14-bit 피치 벤드 값으로 변환한다.
+ * bend는 8192가 중앙이며 ±PITCH_BEND_RANGE 반음 범위로 계산한다.
+ */
+export function frequencyToMidi(frequency: number): { note: number; bend: number } {
+  const exact = 69 + 12 * Math.log2(frequency / 440);
+  const note = Math.max(0, Math.min(127, Math.round(exact)));
+  const offset = exact - note;
+  const bend = Math.max(0, Math.min(16383, Math.round(8192 + (offset / PITCH_BEND_RANGE) * 8192)));
+  return { note, bend };
+}
+
+const encodeVarLen = (value: number): number[] => {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+};
+
+const textBytes = (text: string): number[] => Array.from(new TextEncoder().encode(text));
+
+const metaEvent = (type: number, payload: number[]): number[] => [0xff, type, ...encodeVarLen(payload.length), ...payload];
+
+const trackNameEvent = (name: string) => metaEvent(0x03, textBytes(name));
+
+// 이벤트를 tick 순서로 정렬하고 delta-time을 붙여 MTrk 청크로 만든다
+const buildTrackChunk = (events: TrackEvent[]): number[] => {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+  sorted.forEach(ev => {
+    body.push(...encodeVarLen(ev.tick - lastTick), ...ev.data);
+    lastTick = ev.tick;
+  });
+  body.push(0x00, ...metaEvent(0x2f, [])); // End of Track
+
+  const length = body.length;
+  return [
+    0x4d, 0x54, 0x72, 0x6b, // "MTrk"
+    (length >>> 24) & 0xff, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff,
+    ...body,
+  ];
+};
+
+const buildNoteTrack = (
+  name: string,
+  channel: number,
+  program: number,
+  notes: MidiNote[],
+  secondsToTicks: (seconds: number) => number
+): number[] => {
+  const events: TrackEvent[] = [
+    { tick: 0, order: 0, data: trackNameEvent(name) },
+    { tick: 0, order: 1, data: [0xc0 | channel, program] },
+    // RPN 0 (pitch bend sensitivity) = PITCH_BEND_RANGE 반음
+    { tick: 0, order: 1, data: [0xb0 | channel, 101, 0] },
+    { tick: 0, order: 1, data: [0xb0 | channel, 100, 0] },
+    { tick: 0, order: 1, data: [0xb0 | channel, 6, PITCH_BEND_RANGE] },
+    { tick: 0, order: 1, data: [0xb0 | channel, 38, 0] },
+  ];
+
+  // (시간순 목록) 같은 음 번호가 다시 울리면 앞 음은 거기서 끝냄 — 겹친 note off가 새 음을 끊지 않게
+  const nextStart = new Map<number, number>();
+  const ends = [...notes].reverse().map(n => {
+    const { note } = frequencyToMidi(n.frequency);
+    const start = secondsToTicks(n.startTime);
+    const end = Math.min(secondsToTicks(n.startTime + n.duration), nextStart.get(note) ?? Infinity);
+    nextStart.set(note, start);
+    return Math.max(start + 1, end);
+  }).reverse();
+
+  let currentBend = 8192;
+  notes.forEach((n, index) => {
+    const { note, bend } = frequencyToMidi(n.frequency);
+    const start = secondsToTicks(n.startTime);
+    const end = ends[index];
+    const velocity = Math.max(1, Math.min(127, Math.round(96 * (n.velocity ?? 1))));
+
+    if (bend !== currentBend) {
+      events.push({ tick: start, order: 2, data: [0xe0 | channel, bend & 0x7f, (bend >> 7) & 0x7f] });
+      currentBend = bend;
+    }
+    events.push({ tick: start, order: 3, data: [0x90 | channel, note, velocity] });
+    events.push({ tick: end, order: 0, data: [0x80 | channel, note, 0] });
+  });
+
+  return buildTrackChunk(events);
+};
+
+/**
+ * generateTimeline의 PlaybackEvent[]와 반주 음 목록을 Type 1 Standard MIDI File로 직렬화한다.
+ * 트랙 0은 템포/박자, 트랙 1은 멜로디, 트랙 2는 반주(패드).
+ * 템포는 BASE_BPM × tempoMultiplier(그루브 모드면 그 BPM·박자)로 기록하므로 DAW에서도 실제 재생 시간과 같다.
+ */
+export function timelineToMidi(events: PlaybackEvent[], padNotes: PadNote[], theme: ThemeConfig): Uint8Array {
+  const bpm = theme.groove ? theme.groove.bpm : BASE_BPM * (theme.tempoMultiplier > 0 ? theme.tempoMultiplier : 1);
+  const beatsPerBar = theme.groove ? theme.groove.beatsPerBar : 4;
+  const microsPerQuarter = Math.round(60_000_000 / bpm);
+  const secondsToTicks = (seconds: number) => Math.round(seconds * (bpm / 60) * PPQ);
+
+  const conductor = buildTrackChunk([
+    { tick: 0, order: 0, data: trackNameEvent(`${theme.mood} — Morse Melody`) },
+    {
+      tick: 0,
+      order: 1,
+      data: metaEvent(0x51, [(microsPerQuarter >> 16) & 0xff, (microsPerQuarter >> 8) & 0xff, microsPerQuarter & 0xff]),
+    },
+    { tick: 0, order: 1, data: metaEvent(0x58, [beatsPerBar, 2, 24, 8]) }, // n/4
+  ]);
+
+  const melodyNotes: MidiNote[] = events
+    .filter(ev => ev.type === 'note' && !!ev.frequency)
+    .map(ev => ({ startTime: ev.startTime, duration: ev.duration, frequency: ev.frequency! }));
+
+  const melody = buildNoteTrack(
+    `${theme.mood} Melody`,
+    MELODY_CHANNEL,
+    getVoice(theme.instrument).midiProgram,
+    melodyNotes,
+    secondsToTicks
+  );
+  const pad = buildNoteTrack(`${theme.mood} Pad`, PAD_CHANNEL, PAD_PROGRAM, padNotes, secondsToTicks);
+
+  const header = [
+    0x4d, 0x54, 0x68, 0x64, // "MThd"
+    0, 0, 0, 6,
+    0, 1, // format 1
+    0, 3, // tracks
+    (PPQ >> 8) & 0xff, PPQ & 0xff,
+  ];
+
+  return new Uint8Array([...header, ...conductor, ...melody, ...pad]);
+}
@@ -0,0 +1,61 @@
+import { MixerChannelId, MixerSettings } from '../types';
+import { sanitizeMixer } from './themeValidation';
+
+// 믹서 값: 채널 레벨 + 뮤트·솔로 → 실제 gain, 스타일 프리셋별 localStorage 보관
+
+const STORAGE_KEY = 'morse-melody.mixers';
+
+// 자동 테마·직접 고른 값처럼 프리셋이 없을 때 쓰는 키
+export const DEFAULT_MIXER_KEY = 'default';
+
+// 예전에 버스 생성·scheduleFrom에 고정돼 있던 값
+export const DEFAULT_MIXER: MixerSettings = {
+  master: 0.6,
+  melody: { level: 0.5, mute: false, solo: false },
+  pad: { level: 0.28, mute: false, solo: false },
+};
+
+export const MIXER_CHANNELS: { id: MixerChannelId; label: string }[] = [
+  { id: 'melody', label: 'Melody' },
+  { id: 'pad', label: 'Pad' },
+];
+
+/**
+ * 뮤트·솔로를 반영한 버스별 gain. 솔로인 채널이 있으면 솔로가 아닌 채널은 0.
+ */
+export function resolveMixerGains(mixer: MixerSettings): { master: number } & Record<MixerChannelId, number> {
+  const anySolo = MIXER_CHANNELS.some(({ id }) => mixer[id].solo);
+  const gain = (id: MixerChannelId) => {
+    const channel = mixer[id];
+    return channel.mute || (anySolo && !channel.solo) ? 0 : channel.level;
+  };
+  return { master: mixer.master, melody: gain('melody'), pad: gain('pad') };
+}
+
+/**
+ * 프리셋 id별로 저장된 믹서 값을 읽는다. 저장한 적이 없으면 빈 객체, 저장소를 쓸 수 없거나 내용이 깨졌으면 null.
+ */
+export function loadPresetMixers(): Record<string, MixerSettings> | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : {};
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+    return Object.fromEntries(
+      Object.entries(parsed as Record<string, unknown>).map(([id, mixer]) => [id, sanitizeMixer(mixer, DEFAULT_MIXER)])
+    );
+  } catch (_) {
+    return null;
+  }
+}
+
+/**
+ * 믹서 값을 저장한다. 저장 공간이 없거나 저장소가 막혀 있으면 false.
+ */
+export function savePresetMixers(mixers: Record<string, MixerSettings>): boolean {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(mixers));
+    return true;
+  } catch (_) {
+    return false;
+  }
+}
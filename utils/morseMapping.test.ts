@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { morseToText, textToMorse } from './morseMapping';
+
+const ALL_SYLLABLES = Array.from({ length: 0xD7A3 - 0xAC00 + 1 }, (_, i) => String.fromCharCode(0xAC00 + i));
+
+const roundTrip = (text: string) =>
+  morseToText(textToMorse(text, { strictHangul: true }).morse, { alphabet: 'hangul' }).text;
+
+describe('strict Hangul round-trip', () => {
+  it('restores every one of the 11,172 syllables on its own', () => {
+    const failed = ALL_SYLLABLES.filter(syllable => roundTrip(syllable) !== syllable);
+    expect(failed).toEqual([]);
+  });
+
+  it('restores every syllable when followed by another syllable in the same word', () => {
+    // 뒤 음절의 초성이 앞 음절 받침으로 붙는 경우 (각가 ↔ 가까)
+    const failed = ALL_SYLLABLES.filter(syllable => roundTrip(syllable + '까') !== syllable + '까');
+    expect(failed).toEqual([]);
+  });
+
+  it('restores words of consecutive syllables', () => {
+    ['각가', '가까', '읽어', '괜찮아', '닭볶음탕', '값없는 삶'].forEach(text => expect(roundTrip(text)).toBe(text));
+  });
+});
+
+describe('standalone compound jamo', () => {
+  it('splits double consonants, clusters and compound vowels instead of skipping them', () => {
+    const result = textToMorse('ㄲㅘ ㄳ ㅢ');
+    expect(result.skipped).toEqual([]);
+    expect(result.decomposed).toEqual(['ㄱ', 'ㄱ', 'ㅗ', 'ㅏ', ' ', 'ㄱ', 'ㅅ', ' ', 'ㅡ', 'ㅣ']);
+    expect(result.morse).toBe(textToMorse('ㄱㄱㅗㅏ ㄱㅅ ㅡㅣ').morse);
+  });
+
+  it('keeps jamo that have their own code', () => {
+    expect(textToMorse('ㅐ').decomposed).toEqual(['ㅐ']);
+  });
+});
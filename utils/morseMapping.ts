@@ -21,8 +21,84 @@ const MORSE_MAP: Record<string, string> = {
   'ㅐ': '--.-', 'ㅔ': '-.--'
 };
 
+// 확장 라틴 문자 (독일어·프랑스어·스페인어·폴란드어·에스페란토 등)
+const EXTENDED_LATIN_MAP: Record<string, string> = {
+  'Ä': '.-.-', 'Á': '.--.-', 'Å': '.--.-', 'À': '.--.-', 'Ą': '.-.-', 'Æ': '.-.-',
+  'Ç': '-.-..', 'Ć': '-.-..', 'Ĉ': '-.-..', 'Ð': '..--.', 'É': '..-..', 'Ę': '..-..',
+  'È': '.-..-', 'Ł': '.-..-', 'Ĝ': '--.-.', 'Ĥ': '----', 'Ĵ': '.---.', 'Ñ': '--.--',
+  'Ń': '--.--', 'Ö': '---.', 'Ó': '---.', 'Ø': '---.', 'Ŝ': '...-.', 'Ś': '...-...',
+  'Þ': '.--..', 'Ü': '..--', 'Ŭ': '..--', 'Ź': '--..-.', 'Ż': '--..-',
+};
+
+// 러시아어 키릴 문자
+const CYRILLIC_MAP: Record<string, string> = {
+  'А': '.-', 'Б': '-...', 'В': '.--', 'Г': '--.', 'Д': '-..', 'Е': '.', 'Ё': '.',
+  'Ж': '...-', 'З': '--..', 'И': '..', 'Й': '.---', 'К': '-.-', 'Л': '.-..', 'М': '--',
+  'Н': '-.', 'О': '---', 'П': '.--.', 'Р': '.-.', 'С': '...', 'Т': '-', 'У': '..-',
+  'Ф': '..-.', 'Х': '....', 'Ц': '-.-.', 'Ч': '---.', 'Ш': '----', 'Щ': '--.-',
+  'Ъ': '--.--', 'Ы': '-.--', 'Ь': '-..-', 'Э': '..-..', 'Ю': '..--', 'Я': '.-.-',
+};
+
+// 그리스 문자 (강세 부호는 textToMorse에서 떼고 보냄)
+const GREEK_MAP: Record<string, string> = {
+  'Α': '.-', 'Β': '-...', 'Γ': '--.', 'Δ': '-..', 'Ε': '.', 'Ζ': '--..', 'Η': '....',
+  'Θ': '-.-.', 'Ι': '..', 'Κ': '-.-', 'Λ': '.-..', 'Μ': '--', 'Ν': '-.', 'Ξ': '-..-',
+  'Ο': '---', 'Π': '.--.', 'Ρ': '.-.', 'Σ': '...', 'Τ': '-', 'Υ': '-.--', 'Φ': '..-.',
+  'Χ': '----', 'Ψ': '--.-', 'Ω': '.--',
+};
+
+// 和文モールス (Wabun code) — 부호가 라틴 문자와 겹치므로 <DO> … <SN> 전환 신호 사이에서만 쓴다
+// 탁점(゛)·반탁점(゜)은 별도 부호로 바로 앞 가나 뒤에 보낸다 (decomposeKana 참고)
+const WABUN_MAP: Record<string, string> = {
+  'ア': '--.--', 'イ': '.-', 'ウ': '..-', 'エ': '-.---', 'オ': '.-...',
+  'カ': '.-..', 'キ': '-.-..', 'ク': '...-', 'ケ': '-.--', 'コ': '----',
+  'サ': '-.-.-', 'シ': '--.-.', 'ス': '---.-', 'セ': '.---.', 'ソ': '---.',
+  'タ': '-.', 'チ': '..-.', 'ツ': '.--.', 'テ': '.-.--', 'ト': '..-..',
+  'ナ': '.-.', 'ニ': '-.-.', 'ヌ': '....', 'ネ': '--.-', 'ノ': '..--',
+  'ハ': '-...', 'ヒ': '--..-', 'フ': '--..', 'ヘ': '.', 'ホ': '-..',
+  'マ': '-..-', 'ミ': '..-.-', 'ム': '-', 'メ': '-...-', 'モ': '-..-.',
+  'ヤ': '.--', 'ユ': '-..--', 'ヨ': '--',
+  'ラ': '...', 'リ': '--.', 'ル': '-.--.', 'レ': '---', 'ロ': '.-.-',
+  'ワ': '-.-', 'ヰ': '.-..-', 'ヱ': '.--..', 'ヲ': '.---', 'ン': '.-.-.',
+  '゛': '..', '゜': '..--.', 'ー': '.--.-', '、': '.-.-.-', '」': '.-.-..',
+  '（': '-.--.-', '）': '.-..-.',
+};
+
+// Prosign: 문자 간격 없이 한 덩어리로 이어 보내는 절차 신호. 텍스트에서는 <SK>처럼 표기
+// (<...> 안의 문자는 무엇이든 이어 보내지만, 아래 목록만 해독 시 prosign으로 되돌린다)
+export const PROSIGNS = ['AR', 'AS', 'BK', 'BT', 'CL', 'CT', 'DO', 'HH', 'KN', 'SK', 'SN', 'SOS'];
+
+// 和文 전환 신호: <DO> 이후 가나, <SN> 이후 다시 국제 부호
+export const WABUN_START = '<DO>';
+export const WABUN_END = '<SN>';
+
+// 자주 쓰는 Q부호 (무선 교신 약어) — 문자로는 일반 글자와 같고, 해독 결과 옆에 뜻을 보여주는 용도
+export const Q_CODES: Record<string, string> = {
+  QRL: 'Is this frequency in use?',
+  QRM: 'Interference',
+  QRN: 'Static / atmospheric noise',
+  QRO: 'Increase power',
+  QRP: 'Reduce power / low power',
+  QRQ: 'Send faster',
+  QRS: 'Send slower',
+  QRT: 'Stop sending / closing down',
+  QRU: 'Nothing more for you',
+  QRV: 'Ready',
+  QRX: 'Stand by',
+  QRZ: 'Who is calling me?',
+  QSB: 'Signal is fading',
+  QSL: 'Acknowledge receipt',
+  QSO: 'Contact / conversation',
+  QSY: 'Change frequency',
+  QTH: 'Location',
+};
+
+const HANGUL_INITIALS = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+const HANGUL_MEDIALS = ['ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅘ', 'ㅙ', 'ㅚ', 'ㅛ', 'ㅜ', 'ㅝ', 'ㅞ', 'ㅟ', 'ㅠ', 'ㅡ', 'ㅢ', 'ㅣ'];
+const HANGUL_FINALS = ['', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+
 // Helper to decompose Hangul Syllables into Jamos
-function decomposeHangul(char: string): string[] {
+export function decomposeHangul(char: string): string[] {
   const code = char.charCodeAt(0);
   // Hangul Syllables range: AC00 (44032) - D7A3 (55203)
   if (code < 0xAC00 || code > 0xD7A3) {
@@ -34,9 +110,9 @@ function decomposeHangul(char: string): string[] {
   const medial = Math.floor((offset % 588) / 28);
   const final = offset % 28;
 
-  const initials = ['ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
-  const medials = ['ㅏ', 'ㅐ', 'ㅑ', 'ㅒ', 'ㅓ', 'ㅔ', 'ㅕ', 'ㅖ', 'ㅗ', 'ㅘ', 'ㅙ', 'ㅚ', 'ㅛ', 'ㅜ', 'ㅝ', 'ㅞ', 'ㅟ', 'ㅠ', 'ㅡ', 'ㅢ', 'ㅣ'];
-  const finals = ['', 'ㄱ', 'ㄲ', 'ㄳ', 'ㄴ', 'ㄵ', 'ㄶ', 'ㄷ', 'ㄹ', 'ㄺ', 'ㄻ', 'ㄼ', 'ㄽ', 'ㄾ', 'ㄿ', 'ㅀ', 'ㅁ', 'ㅂ', 'ㅄ', 'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ'];
+  const initials = HANGUL_INITIALS;
+  const medials = HANGUL_MEDIALS;
+  const finals = HANGUL_FINALS;
 
   // Map complex Jamos to simple ones if they don't exist in standard Morse directly, 
   // or return the components.
@@ -69,8 +145,8 @@ function decomposeHangul(char: string): string[] {
       else if (mChar === 'ㅞ') result.push('ㅜ', 'ㅔ');
       else if (mChar === 'ㅟ') result.push('ㅜ', 'ㅣ');
       else if (mChar === 'ㅢ') result.push('ㅡ', 'ㅣ');
-      else if (mChar === 'ㅒ') result.push('ㅑ', 'ㅣ'); // Approximate
-      else if (mChar === 'ㅖ') result.push('ㅕ', 'ㅣ'); // Approximate
+      else if (mChar === 'ㅒ') result.push('ㅑ', 'ㅣ'); // 한글 모스 관례: ㅑ+ㅣ
+      else if (mChar === 'ㅖ') result.push('ㅕ', 'ㅣ'); // 한글 모스 관례: ㅕ+ㅣ
       else result.push(mChar);
   }
 
@@ -96,39 +172,483 @@ function decomposeHangul(char: string): string[] {
   return result;
 }
 
-export function textToMorse(text: string): { original: string, decomposed: string[], morse: string } {
-  const upperText = text.toUpperCase();
+// 작은 가나(ャ, ッ 등)는 Wabun에 따로 없으므로 큰 글자로 보낸다
+const SMALL_KANA: Record<string, string> = {
+  'ァ': 'ア', 'ィ': 'イ', 'ゥ': 'ウ', 'ェ': 'エ', 'ォ': 'オ', 'ッ': 'ツ',
+  'ャ': 'ヤ', 'ュ': 'ユ', 'ョ': 'ヨ', 'ヮ': 'ワ', 'ヵ': 'カ', 'ヶ': 'ケ',
+};
+const KANA_PUNCTUATION: Record<string, string> = { '。': '、', '「': '」', '(': '（', ')': '）' };
+
+const isKana = (char: string) => /[\u3041-\u3096\u30A1-\u30FA\u30FC\u3001\u3002\u300C\u300D\uFF08\uFF09]/.test(char);
+
+/**
+ * 가나 한 글자를 Wabun으로 보낼 단위로 나눈다 (decomposeHangul과 같은 역할).
+ * 히라가나는 가타카나로, 탁음·반탁음은 기본 가나 + ゛/゜로, 작은 가나는 큰 가나로 바꾼다.
+ */
+export function decomposeKana(char: string): string[] {
+  // NFD: ガ → カ + U+3099 (결합 탁점), パ → ハ + U+309A
+  return char
+    .normalize('NFD')
+    .split('')
+    .map(c => {
+      const code = c.charCodeAt(0);
+      if (code === 0x3099) return '゛';
+      if (code === 0x309A) return '゜';
+      const katakana = code >= 0x3041 && code <= 0x3096 ? String.fromCharCode(code + 0x60) : c;
+      return SMALL_KANA[katakana] ?? KANA_PUNCTUATION[katakana] ?? katakana;
+    })
+    .filter(c => WABUN_MAP[c] !== undefined);
+}
+
+// 해독한 가나 나열에서 ゛/゜를 앞 글자와 합친다 (カ゛ → ガ)
+const composeKana = (text: string): string =>
+  text.replace(/゛/g, '\u3099').replace(/゜/g, '\u309A').normalize('NFC').replace(/\u3099/g, '゛').replace(/\u309A/g, '゜');
+
+export const isProsign = (token: string) => /^<[A-Z0-9]{2,}>$/.test(token);
+
+// <SK> 같은 표기를 이어 붙인 부호로 (알 수 없는 문자가 있으면 null)
+const prosignCode = (token: string): string | null => {
+  if (!isProsign(token)) return null;
+  const codes = token.slice(1, -1).split('').map(char => MORSE_MAP[char]);
+  return codes.every(Boolean) ? codes.join('') : null;
+};
+
+// 같은 부호를 여러 문자가 쓰므로, 해독할 때 어느 표를 우선할지 고르는 설정
+export type MorseAlphabet = 'latin' | 'extended' | 'cyrillic' | 'greek' | 'hangul';
+
+export const MORSE_ALPHABETS: { id: MorseAlphabet; label: string }[] = [
+  { id: 'latin', label: 'Latin' },
+  { id: 'extended', label: 'Latin+ (ÄÖÜ…)' },
+  { id: 'cyrillic', label: 'Кириллица' },
+  { id: 'greek', label: 'Ελληνικά' },
+  { id: 'hangul', label: '한글' },
+];
+
+/**
+ * textToMorse가 돌려준 decomposed 항목 하나의 부호 (문자, 자모, 가나, <SK> 등).
+ * 가나와 라틴 문자가 같은 부호를 쓰므로 항목 단위로 찾아야 한다.
+ */
+export function codeForToken(token: string): string | null {
+  return (
+    MORSE_MAP[token] ??
+    EXTENDED_LATIN_MAP[token] ??
+    CYRILLIC_MAP[token] ??
+    GREEK_MAP[token] ??
+    WABUN_MAP[token] ??
+    prosignCode(token)
+  );
+}
+
+// 원문 문자 하나가 보내지는 단위 (자모·가나·문자)와 그 부호
+export interface MorsePart {
+  token: string;
+  code: string;
+}
+
+/**
+ * 원문 문자 하나에 대한 부호 정보.
+ * 한글 음절은 자모 여러 개, <SK> 같은 prosign은 표기 전체가 한 구간이다.
+ * 和文 전환 신호(<DO>/<SN>)처럼 원문에 없이 끼워 넣은 구간은 length가 0이다.
+ * 타임라인에서의 시간 구간은 utils/timeline.ts의 getSourceSpans로 얻는다.
+ */
+export interface MorseCharSpan {
+  char: string; // 원문 그대로 (대소문자 유지), 단어 간격은 ' '
+  index: number; // 원문에서의 위치 (UTF-16)
+  length: number;
+  parts: MorsePart[];
+}
+
+export interface TextToMorseResult {
+  original: string;
+  decomposed: string[];
+  chars: MorseCharSpan[];
+  morse: string;
+  /** 어느 표에도 없어 보내지 못한 문자 (입력 순서, 중복 제거) */
+  skipped: string[];
+}
+
+export interface TextToMorseOptions {
+  /**
+   * 엄격한 한글 모드: 붙어 있는 음절 사이에 SYLLABLE_SEPARATOR를 넣는다.
+   * 쌍자음(ㄱㄱ → ㄲ)·겹받침·이중모음을 음절 경계 없이는 되살릴 수 없어서(각가 ↔ 가까),
+   * morseToText가 원래 음절로 정확히 다시 조합할 수 있게 한다. 소리(타임라인)는 같다.
+   */
+  strictHangul?: boolean;
+}
+
+// 음절 경계 표시 — 부호 문자열에서 문자처럼 공백으로 구분해 쓴다 (소리 없음)
+export const SYLLABLE_SEPARATOR = '|';
+
+// 표에 없는 악센트 문자는 기본 글자로 (Ô → O, ά → Α)
+const stripDiacritics = (char: string) => char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+export function textToMorse(text: string, options: TextToMorseOptions = {}): TextToMorseResult {
   let morseCode = "";
   const decomposedChars: string[] = [];
+  const chars: MorseCharSpan[] = [];
+  const skipped: string[] = [];
+  let wabunMode = false; // <DO> 이후 가나 구간인지
+  let afterHangul = false; // 바로 앞이 같은 단어 안의 한글(음절·자모)인지 — 음절 경계 표시용
+
+  const skip = (char: string) => {
+    if (!skipped.includes(char)) skipped.push(char);
+  };
+
+  // 원문 문자 하나(또는 끼워 넣은 전환 신호)의 구간을 시작
+  const begin = (char: string, index: number, length: number) => {
+    chars.push({ char, index, length, parts: [] });
+  };
+
+  const push = (token: string) => {
+    const code = codeForToken(token);
+    if (!code) return;
+    morseCode += code + MorseSymbol.SPACE;
+    decomposedChars.push(token);
+    chars[chars.length - 1].parts.push({ token, code });
+  };
+
+  // 엄격한 한글 모드에서 한글 단위(음절 또는 낱자모) 앞에 경계를 넣음
+  const markSyllable = (wasAfterHangul: boolean) => {
+    if (options.strictHangul && wasAfterHangul) morseCode += SYLLABLE_SEPARATOR + MorseSymbol.SPACE;
+    afterHangul = true;
+  };
+
+  // 가나 ↔ 그 밖의 문자 경계에 전환 신호 (숫자는 두 부호 체계가 같아서 전환하지 않음)
+  // 원문에 없는 신호이므로 길이 0인 구간으로 끼워 넣는다
+  const switchMode = (toWabun: boolean, index: number) => {
+    if (wabunMode === toWabun) return;
+    const signal = toWabun ? WABUN_START : WABUN_END;
+    begin(signal, index, 0);
+    push(signal);
+    wabunMode = toWabun;
+  };
+
+  // 코드 포인트 단위로 순회 (index는 원문의 UTF-16 위치)
+  const points = Array.from(text);
+  let index = 0;
+  for (let p = 0; p < points.length; index += points[p].length, p++) {
+    const source = points[p];
+    const char = source.toUpperCase();
 
-  for (let i = 0; i < upperText.length; i++) {
-    const char = upperText[i];
-    
     if (char === ' ') {
       morseCode += MorseSymbol.WORD_SPACE + " ";
       decomposedChars.push(' ');
+      begin(' ', index, 1);
+      afterHangul = false;
+      continue;
+    }
+    const wasAfterHangul = afterHangul;
+    afterHangul = false;
+
+    // Prosign markup: <SK> → ...-.- (문자 간격 없이 이어 붙임)
+    if (char === '<') {
+      const close = points.indexOf('>', p);
+      const markup = close > p ? points.slice(p, close + 1).join('') : '';
+      const token = markup.toUpperCase();
+      if (prosignCode(token)) {
+        begin(markup, index, markup.length);
+        push(token);
+        if (token === WABUN_START) wabunMode = true;
+        if (token === WABUN_END) wabunMode = false;
+        index += markup.length - source.length;
+        p = close;
+      } else {
+        skip(source);
+      }
+      continue;
+    }
+
+    // Japanese kana → Wabun
+    if (isKana(char)) {
+      const kana = decomposeKana(char);
+      if (kana.length === 0) {
+        skip(source);
+        continue;
+      }
+      switchMode(true, index);
+      begin(source, index, source.length);
+      kana.forEach(push);
+      continue;
+    }
+
+    // Check if Hangul (음절은 자모로, 낱자 쌍자음·이중모음은 두 자모로 분해)
+    const isHangul = /[가-힣]/.test(char);
+    if (isHangul || isJamo(char)) {
+      const jamos = isHangul ? decomposeHangul(char) : decomposeJamo(char);
+      if (!jamos.every(jamo => codeForToken(jamo))) {
+        skip(source);
+        continue;
+      }
+      switchMode(false, index);
+      markSyllable(wasAfterHangul);
+      begin(source, index, source.length);
+      jamos.forEach(push);
       continue;
     }
 
-    // Check if Hangul
-    if (char.match(/[가-힣]/)) {
-      const jamos = decomposeHangul(char);
-      jamos.forEach(jamo => {
-        if (MORSE_MAP[jamo]) {
-          morseCode += MORSE_MAP[jamo] + MorseSymbol.SPACE;
-          decomposedChars.push(jamo);
-        }
-      });
+    // 대문자로 바꾸면 길어지는 문자도 있음 (ß → SS). 표에 없는 악센트 문자는 기본 글자로
+    const tokens = Array.from(char).map(c => (codeForToken(c) ? c : stripDiacritics(c)));
+    if (tokens.some(token => !codeForToken(token))) {
+      // 어느 표에도 없는 문자: 보내지 않고 호출자에게 알림
+      skip(source);
       continue;
     }
+    if (!/[0-9]/.test(char)) switchMode(false, index);
+    begin(source, index, source.length);
+    tokens.forEach(push);
+  }
+
+  return { original: text, decomposed: decomposedChars, chars, morse: morseCode.trim(), skipped };
+}
+
+// ---------------------------------------------------------------------------
+// Decoding (Morse → Text)
+// ---------------------------------------------------------------------------
+
+const isJamo = (char: string) => /[ㄱ-ㅣ]/.test(char);
+
+// 같은 부호를 여러 문자 체계가 나눠 쓰므로 역방향 표는 체계별로 둔다 (먼저 나온 문자가 대표)
+const buildReverse = (map: Record<string, string>, include: (char: string) => boolean = () => true) => {
+  const reverse: Record<string, string> = {};
+  Object.entries(map).forEach(([char, code]) => {
+    if (include(char) && reverse[code] === undefined) reverse[code] = char;
+  });
+  return reverse;
+};
+
+const REVERSE_LATIN = buildReverse(MORSE_MAP, char => !isJamo(char));
+const REVERSE_HANGUL = buildReverse(MORSE_MAP, isJamo);
+const REVERSE_WABUN = buildReverse(WABUN_MAP);
+
+// 문자 체계별 우선 표 (없으면 라틴 표의 숫자·문장부호로)
+const REVERSE_BY_ALPHABET: Record<MorseAlphabet, Record<string, string>> = {
+  latin: {},
+  extended: buildReverse(EXTENDED_LATIN_MAP),
+  cyrillic: buildReverse(CYRILLIC_MAP),
+  greek: buildReverse(GREEK_MAP),
+  hangul: REVERSE_HANGUL,
+};
+
+// 문장부호와 부호가 겹치는 prosign(<AR> = +, <BT> = = 등)은 옵션으로 prosign을 우선
+const REVERSE_PROSIGN: Record<string, string> = {};
+PROSIGNS.forEach(name => {
+  const token = `<${name}>`;
+  const code = prosignCode(token);
+  if (code && !REVERSE_PROSIGN[code]) REVERSE_PROSIGN[code] = token;
+});
+
+// decomposeHangul에서 쪼갠 조합을 다시 붙이기 위한 표
+const DOUBLE_INITIALS: Record<string, string> = {
+  'ㄱㄱ': 'ㄲ', 'ㄷㄷ': 'ㄸ', 'ㅂㅂ': 'ㅃ', 'ㅅㅅ': 'ㅆ', 'ㅈㅈ': 'ㅉ',
+};
+const COMPOUND_MEDIALS: Record<string, string> = {
+  'ㅗㅏ': 'ㅘ', 'ㅗㅐ': 'ㅙ', 'ㅗㅣ': 'ㅚ', 'ㅜㅓ': 'ㅝ', 'ㅜㅔ': 'ㅞ',
+  'ㅜㅣ': 'ㅟ', 'ㅡㅣ': 'ㅢ', 'ㅑㅣ': 'ㅒ', 'ㅕㅣ': 'ㅖ',
+};
+const COMPOUND_FINALS: Record<string, string> = {
+  'ㄱㄱ': 'ㄲ', 'ㄱㅅ': 'ㄳ', 'ㄴㅈ': 'ㄵ', 'ㄴㅎ': 'ㄶ', 'ㄹㄱ': 'ㄺ',
+  'ㄹㅁ': 'ㄻ', 'ㄹㅂ': 'ㄼ', 'ㄹㅅ': 'ㄽ', 'ㄹㅌ': 'ㄾ', 'ㄹㅍ': 'ㄿ',
+  'ㄹㅎ': 'ㅀ', 'ㅂㅅ': 'ㅄ', 'ㅅㅅ': 'ㅆ',
+};
+
+// 낱자로 쓴 쌍자음·겹받침·이중모음(ㄲ, ㄳ, ㅘ …) → 위 표를 거꾸로 찾아 두 자모로
+const COMPOUND_JAMO: Record<string, string[]> = {};
+Object.entries({ ...DOUBLE_INITIALS, ...COMPOUND_MEDIALS, ...COMPOUND_FINALS }).forEach(([pair, jamo]) => {
+  COMPOUND_JAMO[jamo] = Array.from(pair);
+});
+
+/**
+ * 한글 호환 자모 하나를 부호가 있는 자모로 나눈다 (부호가 있으면 그대로, ㄲ → ㄱㄱ, ㅘ → ㅗㅏ).
+ * 표에 없는 문자는 그대로 돌려준다.
+ */
+export function decomposeJamo(jamo: string): string[] {
+  return codeForToken(jamo) ? [jamo] : COMPOUND_JAMO[jamo] ?? [jamo];
+}
+
+const isVowel = (jamo: string | undefined) => !!jamo && HANGUL_MEDIALS.includes(jamo);
+const isConsonant = (jamo: string | undefined) => !!jamo && HANGUL_INITIALS.includes(jamo);
+
+/**
+ * 음절 하나 분량의 자모를 정확히 한 음절로 조합한다 (경계가 표시된 엄격한 한글 모드용).
+ * 초성(쌍자음 포함) + 중성(이중모음 포함) + 종성(겹받침 포함)으로 딱 맞지 않으면 null.
+ */
+function composeSyllable(jamos: string[]): string | null {
+  if (!isConsonant(jamos[0])) return null;
+  const double = DOUBLE_INITIALS[jamos[0] + jamos[1]];
+  const initial = double && isVowel(jamos[2]) ? double : jamos[0];
+  let i = initial === jamos[0] ? 1 : 2;
 
-    if (MORSE_MAP[char]) {
-      morseCode += MORSE_MAP[char] + MorseSymbol.SPACE;
-      decomposedChars.push(char);
-    } else {
-        // Unknown chars ignored or treated as space
+  let medial = jamos[i++];
+  if (!isVowel(medial)) return null;
+  const compound = COMPOUND_MEDIALS[medial + (jamos[i] ?? '')];
+  if (compound) {
+    medial = compound;
+    i++;
+  }
+
+  const rest = jamos.slice(i);
+  const final = rest.length === 0 ? '' : rest.length === 1 ? rest[0] : rest.length === 2 ? COMPOUND_FINALS[rest.join('')] : undefined;
+  if (final === undefined || !HANGUL_FINALS.includes(final) || !HANGUL_INITIALS.includes(initial)) return null;
+
+  return String.fromCharCode(
+    0xAC00 + HANGUL_INITIALS.indexOf(initial) * 588 + HANGUL_MEDIALS.indexOf(medial) * 28 + HANGUL_FINALS.indexOf(final)
+  );
+}
+
+/**
+ * 자모 나열을 완성형 음절로 다시 조합한다 (decomposeHangul의 역방향).
+ * 자음 뒤에 모음이 오면 다음 음절의 초성으로 보고, 그렇지 않으면 받침으로 붙인다.
+ * 음절을 이룰 수 없는 자모는 그대로 남긴다.
+ */
+export function composeHangul(jamos: string[]): string {
+  // 음절 경계가 있으면 구간마다 정확히 조합 (맞지 않는 구간은 아래의 추측 방식으로)
+  if (jamos.includes(SYLLABLE_SEPARATOR)) {
+    const segments: string[][] = [[]];
+    jamos.forEach(jamo => {
+      if (jamo === SYLLABLE_SEPARATOR) segments.push([]);
+      else segments[segments.length - 1].push(jamo);
+    });
+    return segments.map(segment => composeSyllable(segment) ?? composeHangul(segment)).join('');
+  }
+
+  // idx 위치의 자음(또는 쌍자음)이 다음 음절의 초성이 되는지
+  const startsSyllable = (idx: number) => {
+    if (!isConsonant(jamos[idx])) return false;
+    if (isVowel(jamos[idx + 1])) return true;
+    return !!DOUBLE_INITIALS[jamos[idx] + jamos[idx + 1]] && isVowel(jamos[idx + 2]);
+  };
+
+  let result = '';
+  let i = 0;
+  while (i < jamos.length) {
+    const current = jamos[i];
+    if (!startsSyllable(i)) {
+      result += current;
+      i++;
+      continue;
+    }
+
+    // Initial
+    let initial = current;
+    if (!isVowel(jamos[i + 1])) {
+      initial = DOUBLE_INITIALS[current + jamos[i + 1]];
+      i++;
+    }
+    i++;
+
+    // Medial
+    let medial = jamos[i++];
+    const compound = COMPOUND_MEDIALS[medial + (jamos[i] ?? '')];
+    if (compound) {
+      medial = compound;
+      i++;
     }
+
+    // Final
+    let final = '';
+    if (isConsonant(jamos[i]) && !startsSyllable(i)) {
+      const cluster = COMPOUND_FINALS[jamos[i] + (jamos[i + 1] ?? '')];
+      if (cluster && !startsSyllable(i + 1)) {
+        final = cluster;
+        i += 2;
+      } else if (HANGUL_FINALS.includes(jamos[i])) {
+        final = jamos[i];
+        i++;
+      }
+    }
+
+    const code =
+      0xAC00 +
+      HANGUL_INITIALS.indexOf(initial) * 588 +
+      HANGUL_MEDIALS.indexOf(medial) * 28 +
+      HANGUL_FINALS.indexOf(final);
+    result += String.fromCharCode(code);
   }
+  return result;
+}
+
+export interface MorseDecodeOptions {
+  /** 겹치는 부호를 어느 문자 체계로 읽을지 (미지정 시 라틴). 'hangul'이면 자모를 음절로 조합 */
+  alphabet?: MorseAlphabet;
+  /** <DO> 없이도 가나(和文)로 해석. 부호 안의 <DO>/<SN> 전환 신호는 옵션과 관계없이 따름 */
+  wabun?: boolean;
+  /** 문장부호와 겹치는 부호를 prosign으로 해석 (-...- → <BT>). 겹치지 않는 prosign(<SK> 등)은 항상 해석 */
+  prosigns?: boolean;
+}
+
+export interface MorseDecodeResult {
+  text: string;
+  /** MORSE_MAP에 없는 부호 묶음 (text에는 UNKNOWN_CHAR로 표시) */
+  unknown: string[];
+}
+
+export const UNKNOWN_CHAR = '�';
+
+export function morseToText(morse: string, options: MorseDecodeOptions = {}): MorseDecodeResult {
+  const unknown: string[] = [];
+  const words = morse
+    .split(MorseSymbol.WORD_SPACE)
+    .map(word => word.split(MorseSymbol.SPACE).filter(group => group.length > 0))
+    .filter(groups => groups.length > 0);
+
+  const wabunStart = prosignCode(WABUN_START);
+  const wabunEnd = prosignCode(WABUN_END);
+  let wabunMode = !!options.wabun;
+  const alphabet = options.alphabet ?? 'latin';
+
+  const decodedWords = words.map(groups => {
+    let hasKana = false;
+    const chars: string[] = [];
+    groups.forEach(group => {
+      // 음절 경계는 한글 조합에만 쓰고 글자로 남기지 않음
+      if (group === SYLLABLE_SEPARATOR) {
+        if (alphabet === 'hangul') chars.push(group);
+        return;
+      }
+      // 전환 신호는 글자로 남기지 않음
+      if (group === wabunStart) {
+        wabunMode = true;
+        return;
+      }
+      if (wabunMode && group === wabunEnd) {
+        wabunMode = false;
+        return;
+      }
+
+      const kana = wabunMode ? REVERSE_WABUN[group] : undefined;
+      if (kana) hasKana = true;
+      // 숫자는 和文에서도 국제 부호와 같음
+      const char =
+        kana ??
+        (options.prosigns ? REVERSE_PROSIGN[group] : undefined) ??
+        (wabunMode ? undefined : REVERSE_BY_ALPHABET[alphabet][group]) ??
+        REVERSE_LATIN[group] ??
+        REVERSE_PROSIGN[group];
+      if (char === undefined) {
+        unknown.push(group);
+        chars.push(UNKNOWN_CHAR);
+        return;
+      }
+      chars.push(char);
+    });
+    const text = alphabet === 'hangul' ? composeHangul(chars) : chars.join('');
+    return hasKana ? composeKana(text) : text;
+  });
+
+  return { text: decodedWords.filter(word => word.length > 0).join(' '), unknown };
+}
+
+// 점·대시·구분자·공백만으로 이루어진 입력인지 (붙여넣은 모스 부호 감지용)
+export function isMorseInput(text: string): boolean {
+  return /^[.\-\/|\s]+$/.test(text) && /[.\-]/.test(text);
+}
 
-  return { original: text, decomposed: decomposedChars, morse: morseCode.trim() };
+// 텍스트에 들어 있는 Q부호와 뜻 (단어 단위로 찾음, 뒤에 ?가 붙은 질문형 포함)
+export function findQCodes(text: string): { code: string; meaning: string }[] {
+  const found = text
+    .toUpperCase()
+    .split(/\s+/)
+    .map(word => word.replace(/\?$/, ''))
+    .filter(word => Q_CODES[word] !== undefined);
+  return Array.from(new Set(found)).map(code => ({ code, meaning: Q_CODES[code] }));
 }
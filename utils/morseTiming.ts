@@ -0,0 +1,76 @@
+import { MorseTiming, MorseTimingRatios, ThemeConfig } from '../types';
+
+// tempoMultiplier 1.0일 때의 점 길이 (timing 미지정 테마의 기존 동작)
+export const LEGACY_DOT_TIME = 0.12;
+
+// 점·대시·간격 길이 (초 단위) — generateTimeline이 그대로 사용
+export interface TimingUnits {
+  dot: number;
+  dash: number;
+  elementGap: number;
+  letterGap: number;
+  wordGap: number;
+}
+
+// 비율 표는 같은 모양을 점(unit) 배수로 쓴다
+const RATIOS: Record<MorseTimingRatios, TimingUnits> = {
+  itu: { dot: 1, dash: 3, elementGap: 1, letterGap: 3, wordGap: 7 },
+  musical: { dot: 1, dash: 4, elementGap: 1, letterGap: 3, wordGap: 7 },
+};
+
+// WPM 기준 단어 "PARIS " 를 문자 내부(점·대시·요소 간격)와 문자/단어 간격으로 나눈 unit 수
+const PARIS_CODES = ['.--.', '.-', '.-.', '..', '...'];
+
+const parisUnits = (ratios: TimingUnits) => {
+  const charUnits = PARIS_CODES.reduce((sum, code) => {
+    const elements = code.split('').reduce((s, sym) => s + (sym === '-' ? ratios.dash : ratios.dot), 0);
+    return sum + elements + (code.length - 1) * ratios.elementGap;
+  }, 0);
+  const gapUnits = (PARIS_CODES.length - 1) * ratios.letterGap + ratios.wordGap;
+  return { charUnits, gapUnits };
+};
+
+/**
+ * 테마의 타이밍 모델을 결정한다.
+ * timing이 없으면 tempoMultiplier로 정해지는 기존 점 길이를 WPM으로 환산해 돌려준다.
+ */
+export function resolveTiming(theme: ThemeConfig): MorseTiming {
+  if (theme.timing) return theme.timing;
+  const ratios = RATIOS.musical;
+  const { charUnits, gapUnits } = parisUnits(ratios);
+  const unit = LEGACY_DOT_TIME / theme.tempoMultiplier;
+  return { wpm: 60 / (unit * (charUnits + gapUnits)), ratios: 'musical' };
+}
+
+/**
+ * 타이밍 모델을 초 단위 길이로 변환한다.
+ * Farnsworth 실효 속도가 문자 속도보다 느리면, PARIS 한 단어가 실효 속도에 맞도록
+ * 문자 간격과 단어 간격만 같은 비율로 늘린다 (문자 자체는 문자 속도 그대로).
+ */
+export function computeTimingUnits(timing: MorseTiming): TimingUnits {
+  const ratios = RATIOS[timing.ratios];
+  const { charUnits, gapUnits } = parisUnits(ratios);
+  const unit = 60 / (timing.wpm * (charUnits + gapUnits));
+
+  let gapUnit = unit;
+  if (timing.farnsworthWpm && timing.farnsworthWpm < timing.wpm) {
+    const wordTime = 60 / timing.farnsworthWpm;
+    gapUnit = (wordTime - charUnits * unit) / gapUnits;
+  }
+
+  return {
+    dot: unit * ratios.dot,
+    dash: unit * ratios.dash,
+    elementGap: unit * ratios.elementGap,
+    letterGap: gapUnit * ratios.letterGap,
+    wordGap: gapUnit * ratios.wordGap,
+  };
+}
+
+// UI 표시용: 문자 속도와 (Farnsworth 적용 시) 실효 속도
+export function describeWpm(theme: ThemeConfig): { wpm: number; effectiveWpm: number } {
+  const timing = resolveTiming(theme);
+  const effectiveWpm =
+    timing.farnsworthWpm && timing.farnsworthWpm < timing.wpm ? timing.farnsworthWpm : timing.wpm;
+  return { wpm: timing.wpm, effectiveWpm };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THEME, ThemeConfig } from '../types';
+import { textToMorse } from './morseMapping';
+import { buildPitchTokens, createPitchStrategy } from './pitchMapping';
+
+const fixedPitches = (text: string, theme: ThemeConfig) => {
+  const strategy = createPitchStrategy(text, { ...theme, pitchMapping: 'fixed' });
+  return buildPitchTokens(textToMorse(text).chars).map(token => strategy(token)[0]);
+};
+
+const distinct = (values: number[]) => new Set(values.map(value => value.toFixed(3))).size;
+
+describe('fixed pitch mapping', () => {
+  const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+  it('gives every Latin letter its own pitch on the default pentatonic scale', () => {
+    expect(distinct(fixedPitches(LETTERS, DEFAULT_THEME))).toBe(26);
+  });
+
+  it('gives every Latin letter its own pitch on a chromatic scale', () => {
+    const chromatic = { ...DEFAULT_THEME, scale: Array.from({ length: 12 }, (_, i) => i) };
+    expect(distinct(fixedPitches(LETTERS, chromatic))).toBe(26);
+  });
+
+  it('keeps other alphabets collision-free', () => {
+    ['ㄱㄴㄷㄹㅁㅂㅅㅇㅈㅊㅋㅌㅍㅎㅏㅑㅓㅕㅗㅛㅜㅠㅡㅣㅐㅔ', 'АБВГДЕЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ', '0123456789'].forEach(text =>
+      expect(distinct(fixedPitches(text, DEFAULT_THEME))).toBe(Array.from(text).length)
+    );
+  });
+
+  it('stays within about an octave either side of the base frequency', () => {
+    const chromatic = Array.from({ length: 12 }, (_, i) => i);
+    [440, 220].forEach(baseFrequency =>
+      [DEFAULT_THEME.scale, chromatic].forEach(scale =>
+        [LETTERS, 'АБВГДЕЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ'].forEach(text => {
+          const pitches = fixedPitches(text, { ...DEFAULT_THEME, baseFrequency, scale });
+          expect(Math.min(...pitches)).toBeGreaterThanOrEqual(baseFrequency / 2.6);
+          expect(Math.max(...pitches)).toBeLessThanOrEqual(baseFrequency * 2.6);
+        })
+      )
+    );
+  });
+
+  it('plays the same letter at the same pitch regardless of position', () => {
+    const [first, , third] = fixedPitches('KEK', DEFAULT_THEME);
+    expect(third).toBe(first);
+    expect(fixedPitches('k', DEFAULT_THEME)[0]).toBe(first);
+  });
+});
@@ -0,0 +1,156 @@
+import { PitchMapping, ThemeConfig } from '../types';
+import { MorseCharSpan } from './morseMapping';
+
+// 음높이 매핑: 보낼 단위(문자·자모·가나)와 그 점·대시를 테마 스케일 위의 주파수로 바꾸는 전략
+
+export const PITCH_MAPPINGS: { id: PitchMapping; label: string }[] = [
+  { id: 'hash', label: 'Varied (hash)' },
+  { id: 'fixed', label: 'Fixed per letter' },
+  { id: 'cw', label: 'Dot / dash (CW)' },
+  { id: 'contour', label: 'Word contour' },
+];
+
+export const DEFAULT_PITCH_MAPPING: PitchMapping = 'hash';
+
+// 음표를 만드는 단위 하나와 단어 안에서의 위치
+export interface PitchToken {
+  token: string;
+  code: string;
+  wordIndex: number;
+  wordPosition: number; // 단어 안에서 몇 번째 단위인지 (0부터)
+  wordLength: number; // 단어의 단위 수
+  isLastWord: boolean;
+}
+
+// 단위 하나 → 요소(점·대시)마다 주파수 (code 길이만큼)
+export type PitchStrategy = (token: PitchToken) => number[];
+
+/**
+ * textToMorse의 chars를 음표 단위 목록으로 편다 (단어 간격 제외, 재생 순서).
+ */
+export function buildPitchTokens(chars: MorseCharSpan[]): PitchToken[] {
+  const words: { token: string; code: string }[][] = [[]];
+  chars.forEach(span => {
+    if (span.char === ' ') {
+      if (words[words.length - 1].length > 0) words.push([]);
+      return;
+    }
+    words[words.length - 1].push(...span.parts);
+  });
+  if (words.length > 1 && words[words.length - 1].length === 0) words.pop();
+
+  return words.flatMap((parts, wordIndex) =>
+    parts.map(({ token, code }, wordPosition) => ({
+      token,
+      code,
+      wordIndex,
+      wordPosition,
+      wordLength: parts.length,
+      isLastWord: wordIndex === words.length - 1,
+    }))
+  );
+}
+
+// fn = f0 * (a)^n where a is 2^(1/12)
+const semitoneToFrequency = (theme: ThemeConfig, semitone: number) => theme.baseFrequency * Math.pow(2, semitone / 12);
+
+// 스케일 음 번호 → 반음 (음수·스케일 길이를 넘는 번호는 옥타브를 옮김)
+const degreeToSemitone = (scale: number[], degree: number) => {
+  const octave = Math.floor(degree / scale.length);
+  return scale[degree - octave * scale.length] + 12 * octave;
+};
+
+const fillCode = (code: string, frequency: number) => Array.from(code, () => frequency);
+
+// fixed 전략의 문자 체계별 순서 — 같은 체계 안에서는 문자마다 다른 음
+const FIXED_ALPHABETS = [
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  '0123456789',
+  'ㄱㄴㄷㄹㅁㅂㅅㅇㅈㅊㅋㅌㅍㅎㅏㅑㅓㅕㅗㅛㅜㅠㅡㅣㅐㅔ',
+  'АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ',
+  'ΑΒΓΔΕΖΗΘΙΚΛΜΝΞΟΠΡΣΤΥΦΧΨΩ',
+  'アイウエオカキクケコサシスセソタチツテトナニヌネノハヒフヘホマミムメモヤユヨラリルレロワヰヱヲン',
+].map(letters => Array.from(letters));
+
+// 스케일로 펼칠 최대 폭 (기준음 위아래 절반씩) — 문자 수가 이 안에 들지 않으면 반음 단위로 펼침
+const FIXED_MAX_OCTAVES = 2;
+
+const STRATEGIES: Record<PitchMapping, (text: string, theme: ThemeConfig) => PitchStrategy> = {
+  // 문자 코드·위치·텍스트 길이를 섞은 해시 — 메시지마다 다른 선율 (예전 generateTimeline 그대로)
+  hash: (text, theme) => {
+    let charIndex = 0;
+    let noteSequence = 0; // 음표 순서로 패턴 생성
+    return ({ token, code }) => {
+      const charCode = token.charCodeAt(0);
+      const pos = charIndex++;
+      noteSequence++;
+
+      // 여러 요소를 조합한 해시로 더 복잡한 패턴
+      const hash1 = (charCode * 17 + pos * 31) % 1000;
+      const hash2 = (text.length * 7 + noteSequence * 13) % 1000;
+      const combinedHash = (hash1 + hash2) % 1000;
+
+      // 스케일 인덱스를 더 다양하게 선택 (위치 기반 + 해시 기반)
+      const baseIndex = pos % theme.scale.length;
+      const hashIndex = combinedHash % theme.scale.length;
+      const scaleIndex = (baseIndex + hashIndex) % theme.scale.length;
+      const semitoneOffset = theme.scale[scaleIndex];
+
+      // 옥타브 변화를 더 자주 발생 (약 30% 확률)
+      let octaveShift = 0;
+      if (combinedHash % 3 === 0) {
+        // 위/아래 옥타브 또는 2옥타브 위
+        const shiftType = combinedHash % 5;
+        if (shiftType === 0) octaveShift = 12; // 한 옥타브 위
+        else if (shiftType === 1) octaveShift = -12; // 한 옥타브 아래
+        else if (shiftType === 2) octaveShift = 24; // 두 옥타브 위 (드물게)
+      }
+
+      // 추가로 반음 단위 미세 조정 (약 15% 확률로 ±1~3 반음)
+      let fineTune = 0;
+      if (combinedHash % 7 === 0) {
+        fineTune = (combinedHash % 7) - 3; // -3 ~ +3 반음
+      }
+
+      return fillCode(code, semitoneToFrequency(theme, semitoneOffset + octaveShift + fineTune));
+    };
+  },
+
+  // 문자마다 고정된 음: 문자 체계 안의 순서대로 스케일을 따라 올라가고 가운데 문자가 기준음
+  // 체계 안에서는 겹치지 않음. 어느 체계에도 없는 문자(문장부호·prosign 등)는 라틴 범위에 해시로
+  fixed: (_, theme) => ({ token, code }) => {
+    const upper = token.toUpperCase();
+    const alphabet = FIXED_ALPHABETS.find(letters => letters.includes(upper)) ?? FIXED_ALPHABETS[0];
+    const index = alphabet.includes(upper)
+      ? alphabet.indexOf(upper)
+      : Array.from(token).reduce((hash, ch) => (hash * 31 + ch.codePointAt(0)!) % 997, 0) % alphabet.length;
+    const degree = index - Math.floor(alphabet.length / 2);
+    const fitsScale = alphabet.length <= theme.scale.length * FIXED_MAX_OCTAVES;
+    return fillCode(code, semitoneToFrequency(theme, fitsScale ? degreeToSemitone(theme.scale, degree) : degree));
+  },
+
+  // 점은 기준음, 대시는 스케일에서 5도에 가장 가까운 음 — 두 음으로 점·대시를 귀로 구분
+  cw: (_, theme) => {
+    const upper = theme.scale.filter(step => step > 0);
+    const dash = upper.length > 0 ? upper.reduce((best, step) => (Math.abs(step - 7) < Math.abs(best - 7) ? step : best)) : 7;
+    return ({ code }) => Array.from(code, symbol => semitoneToFrequency(theme, symbol === '-' ? dash : 0));
+  },
+
+  // 단어마다 아치: 단어 첫 음에서 올라가 가운데가 가장 높고 다시 내려옴 (긴 단어일수록 높이)
+  // 단어 시작음은 단어마다 조금씩 옮기고, 마지막 단어는 기준음에서 시작해 기준음으로 끝남
+  contour: (_, theme) => ({ code, wordIndex, wordPosition, wordLength, isLastWord }) => {
+    const progress = wordLength > 1 ? wordPosition / (wordLength - 1) : 0;
+    const peak = Math.min(wordLength - 1, theme.scale.length + 2);
+    const start = isLastWord ? 0 : wordIndex % 3;
+    const degree = start + Math.round(Math.sin(Math.PI * progress) * peak);
+    return fillCode(code, semitoneToFrequency(theme, degreeToSemitone(theme.scale, degree)));
+  },
+};
+
+/**
+ * 테마의 pitchMapping(미지정 시 hash) 전략을 만든다. 전략은 상태를 가질 수 있으므로 타임라인마다 새로 만들고
+ * 단위 순서대로 한 번씩 부른다.
+ */
+export function createPitchStrategy(text: string, theme: ThemeConfig): PitchStrategy {
+  return STRATEGIES[theme.pitchMapping ?? DEFAULT_PITCH_MAPPING](text, theme);
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THEME, PresetTheme } from '../types';
+import { SHARE_LINK_VERSION, decodeShareState, encodeShareState } from './shareLink';
+
+const THEME: PresetTheme = {
+  mood: 'Dreamy',
+  primaryColor: '#8b5cf6',
+  secondaryColor: '#ffffff',
+  waveform: 'triangle',
+  baseFrequency: 418,
+  tempoMultiplier: 0.88,
+  scale: [0, 2, 5, 9, 11],
+  instrument: 'marimba',
+  effects: { reverb: { mix: 0.55, decay: 4.5 }, delay: { mix: 0.2, feedback: 0.4, units: 6 } },
+  accompaniment: 'arpeggio',
+  pitchMapping: 'cw',
+  sidetoneRiseTime: 0.008,
+};
+
+// 수동 테마가 있는 링크에 params만 덮어씀
+const decodeWith = (params: Record<string, string>) => {
+  const hash = new URLSearchParams(encodeShareState({ text: 'HELLO', theme: THEME }));
+  Object.entries(params).forEach(([key, value]) => hash.set(key, value));
+  return decodeShareState(hash.toString())!.theme!;
+};
+
+describe('share links', () => {
+  it('round-trips text, preset and manual theme', () => {
+    const state = { text: '안녕 HELLO <SK>', presetId: 'dreamy', theme: THEME };
+    expect(decodeShareState('#' + encodeShareState(state))).toEqual(state);
+  });
+
+  it('leaves the theme out when only a preset was shared', () => {
+    expect(decodeShareState(encodeShareState({ text: 'HI', presetId: 'serene' }))).toEqual({ text: 'HI', presetId: 'serene' });
+  });
+
+  it('rejects other versions and empty text', () => {
+    const hash = new URLSearchParams(encodeShareState({ text: 'HI' }));
+    hash.set('v', String(SHARE_LINK_VERSION + 1));
+    expect(decodeShareState(hash.toString())).toBeNull();
+    expect(decodeShareState('v=1&t=%20%20')).toBeNull();
+    expect(decodeShareState('t=HI')).toBeNull();
+  });
+
+  it('replaces non-finite and out-of-range numbers', () => {
+    const theme = decodeWith({ f: '1e309', tm: '-2' });
+    expect(theme.baseFrequency).toBe(DEFAULT_THEME.baseFrequency);
+    expect(theme.tempoMultiplier).toBe(0.25);
+  });
+
+  it('drops non-integer scale steps', () => {
+    expect(decodeWith({ s: '0,2.5,4,x,16' }).scale).toEqual([0, 4]);
+    expect(decodeWith({ s: '0.5,abc' }).scale).toEqual(DEFAULT_THEME.scale);
+  });
+
+  it('plays without effects when the effects JSON is malformed', () => {
+    expect(decodeWith({ fx: '{"reverb":' }).effects).toBeUndefined();
+  });
+
+  it('falls back to the default instrument for unknown ones', () => {
+    expect(decodeWith({ i: 'theremin' }).instrument).toBe(DEFAULT_THEME.instrument);
+  });
+});
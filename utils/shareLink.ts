@@ -0,0 +1,94 @@
+import { PresetTheme } from '../types';
+import { sanitizePresetTheme, truncate } from './themeValidation';
+
+// 공유 링크: 입력 텍스트 + 스타일 프리셋 + 수동 테마를 URL 해시에 담는다
+// 예) #v=1&t=HELLO&p=dreamy&m=Dreamy&w=triangle&f=418&tm=0.88&s=0,2,5,9,11&i=marimba&a=arpeggio&pm=cw
+// 해시는 서버로 전송되지 않으므로 텍스트가 요청 로그에 남지 않는다
+
+export const SHARE_LINK_VERSION = 1;
+
+// 링크로 받은 텍스트 길이 제한 (generateTimeline에 그대로 들어가므로)
+export const MAX_SHARED_TEXT = 1000;
+
+export interface ShareState {
+  text: string;
+  presetId?: string;
+  theme?: PresetTheme; // 없으면 자동 테마
+}
+
+/**
+ * 공유 상태를 URL 해시 문자열('#' 제외)로 만든다.
+ */
+export function encodeShareState(state: ShareState): string {
+  const params = new URLSearchParams();
+  params.set('v', String(SHARE_LINK_VERSION));
+  params.set('t', truncate(state.text, MAX_SHARED_TEXT));
+  if (state.presetId) params.set('p', state.presetId);
+  if (state.theme) {
+    const { mood, primaryColor, secondaryColor, waveform, baseFrequency, tempoMultiplier, scale, instrument, effects, accompaniment, pitchMapping, sidetoneRiseTime } = state.theme;
+    params.set('m', mood);
+    params.set('c1', primaryColor);
+    params.set('c2', secondaryColor);
+    params.set('w', waveform);
+    params.set('f', String(Math.round(baseFrequency * 100) / 100));
+    params.set('tm', String(Math.round(tempoMultiplier * 100) / 100));
+    params.set('s', scale.join(','));
+    params.set('i', instrument);
+    if (effects) params.set('fx', JSON.stringify(effects));
+    if (accompaniment) params.set('a', accompaniment);
+    if (pitchMapping) params.set('pm', pitchMapping);
+    if (sidetoneRiseTime !== undefined) params.set('rt', String(Math.round(sidetoneRiseTime * 10000) / 10000));
+  }
+  return params.toString();
+}
+
+/**
+ * URL 해시를 공유 상태로 읽는다.
+ * 버전이 다르거나 텍스트가 없으면 null, 테마 값은 sanitizePresetTheme로 검사한다.
+ */
+export function decodeShareState(hash: string): ShareState | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (Number(params.get('v')) !== SHARE_LINK_VERSION) return null;
+
+  const text = truncate(params.get('t') ?? '', MAX_SHARED_TEXT);
+  if (!text.trim()) return null;
+
+  const presetId = params.get('p') ?? undefined;
+  // 수동 테마는 파형이 있을 때만 (나머지가 빠졌으면 기본값으로 채움)
+  if (!params.has('w')) return { text, presetId };
+
+  const scale = params.get('s');
+  let effects: unknown;
+  try {
+    effects = JSON.parse(params.get('fx') ?? 'null');
+  } catch {
+    effects = undefined; // 깨진 이펙트 설정은 무시 (이펙트 없이 재생)
+  }
+  return {
+    text,
+    presetId,
+    theme: sanitizePresetTheme({
+      mood: params.get('m'),
+      primaryColor: params.get('c1'),
+      secondaryColor: params.get('c2'),
+      waveform: params.get('w'),
+      baseFrequency: params.get('f'),
+      tempoMultiplier: params.get('tm'),
+      scale: scale ? scale.split(',').filter(step => step.trim() !== '').map(Number) : undefined,
+      instrument: params.get('i'),
+      effects,
+      accompaniment: params.get('a'),
+      pitchMapping: params.get('pm'),
+      sidetoneRiseTime: params.get('rt'),
+    }),
+  };
+}
+
+/**
+ * 현재 페이지 주소에 공유 해시를 붙인 링크.
+ */
+export function buildShareUrl(state: ShareState): string {
+  const url = new URL(window.location.href);
+  url.hash = encodeShareState(state);
+  return url.toString();
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THEME } from '../types';
+import { BASE_FREQUENCY_RANGE, normalizeScale, sanitizeEffects, sanitizePresetTheme } from './themeValidation';
+
+describe('sanitizePresetTheme', () => {
+  it('fills every field from the default theme for unusable input', () => {
+    [null, 'theme', 42, []].forEach(raw => {
+      const theme = sanitizePresetTheme(raw);
+      expect(theme).toMatchObject({
+        mood: DEFAULT_THEME.mood,
+        waveform: DEFAULT_THEME.waveform,
+        baseFrequency: DEFAULT_THEME.baseFrequency,
+        scale: DEFAULT_THEME.scale,
+        instrument: DEFAULT_THEME.instrument,
+      });
+      expect(theme.effects).toBeUndefined();
+    });
+  });
+
+  it('clamps numbers, including numeric strings, into range', () => {
+    const theme = sanitizePresetTheme({ baseFrequency: '20000', tempoMultiplier: 0 });
+    expect(theme.baseFrequency).toBe(BASE_FREQUENCY_RANGE[1]);
+    expect(theme.tempoMultiplier).toBe(0.25);
+  });
+
+  it('rejects malformed colors and unknown enum values', () => {
+    const theme = sanitizePresetTheme({ primaryColor: 'red', waveform: 'noise', accompaniment: 'polka', pitchMapping: 'random' });
+    expect(theme.primaryColor).toBe(DEFAULT_THEME.primaryColor);
+    expect(theme.waveform).toBe(DEFAULT_THEME.waveform);
+    expect(theme.accompaniment).toBeUndefined();
+    expect(theme.pitchMapping).toBeUndefined();
+  });
+});
+
+describe('normalizeScale', () => {
+  it('folds steps into one octave, dedupes and sorts them', () => {
+    expect(normalizeScale([14, -1, 2, 0, 12])).toEqual([0, 2, 11]);
+  });
+
+  it('ignores non-integer steps', () => {
+    expect(normalizeScale([0, 1.5, NaN, Infinity, '4', 7])).toEqual([0, 7]);
+  });
+});
+
+describe('sanitizeEffects', () => {
+  it('keeps only well-formed effect blocks and clamps their values', () => {
+    expect(sanitizeEffects({ reverb: { mix: 2, decay: 'long' }, delay: 'on', pan: { width: -1 } })).toEqual({
+      reverb: { mix: 1, decay: 2 },
+      pan: { width: 0 },
+    });
+  });
+
+  it('returns undefined when nothing usable is left', () => {
+    expect(sanitizeEffects({ delay: null })).toBeUndefined();
+    expect(sanitizeEffects('reverb')).toBeUndefined();
+  });
+});
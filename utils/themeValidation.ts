@@ -0,0 +1,121 @@
+import { DEFAULT_THEME, MixerChannel, MixerSettings, PresetTheme, ThemeEffects } from '../types';
+import { DEFAULT_SIDETONE_RISE_TIME, SIDETONE_RISE_RANGE, hasVoice } from './voices';
+import { ACCOMPANIMENT_STYLES } from './accompaniment';
+import { PITCH_MAPPINGS } from './pitchMapping';
+
+// 밖에서 들어온 테마 값(공유 링크, 가져온 JSON)을 generateTimeline에 넣기 전에 검사한다
+// 범위를 벗어난 숫자는 잘라내고, 모르는 값은 기본값으로 바꾼다 (예외 없음)
+
+export const BASE_FREQUENCY_RANGE: [number, number] = [55, 1760];
+export const TEMPO_RANGE: [number, number] = [0.25, 3];
+export const MAX_MOOD_LENGTH = 32;
+export const REVERB_DECAY_RANGE: [number, number] = [0.1, 8];
+export const DELAY_UNITS_RANGE: [number, number] = [1, 16];
+export const FILTER_CUTOFF_RANGE: [number, number] = [200, 20000];
+export const WAVEFORMS: OscillatorType[] = ['sine', 'square', 'sawtooth', 'triangle'];
+
+// 코드 포인트 단위로 잘라 서로게이트 쌍(이모지 등)이 반으로 갈리지 않게 함
+export const truncate = (text: string, max: number) => Array.from(text).slice(0, max).join('');
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(Math.max(value, min), max);
+
+const toNumber = (raw: unknown, fallback: number, range: [number, number]): number => {
+  const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+  return typeof value === 'number' && Number.isFinite(value) ? clamp(value, range) : fallback;
+};
+
+const pick = <T extends string>(raw: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(raw as T) ? (raw as T) : fallback;
+
+const toColor = (raw: unknown, fallback: string): string =>
+  typeof raw === 'string' && /^#[0-9a-f]{6}$/i.test(raw) ? raw.toLowerCase() : fallback;
+
+/**
+ * 반음 오프셋 목록을 0~11 정수로 접고 중복 제거·정렬한다. 쓸 수 있는 음이 없으면 기본 스케일.
+ */
+export function normalizeScale(raw: unknown): number[] {
+  const steps = Array.isArray(raw) ? raw : [];
+  const scale = Array.from(
+    new Set(steps.filter((n): n is number => Number.isInteger(n)).map(n => ((n % 12) + 12) % 12))
+  ).sort((a, b) => a - b);
+  return scale.length > 0 ? scale : [...DEFAULT_THEME.scale];
+}
+
+const asRecord = (raw: unknown): Record<string, unknown> | null =>
+  raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : null;
+
+/**
+ * 이펙트 설정을 검사한다. 형식이 틀린 항목은 빼서(꺼짐) 돌려주고, 남는 항목이 없으면 undefined.
+ */
+export function sanitizeEffects(raw: unknown): ThemeEffects | undefined {
+  const value = asRecord(raw);
+  if (!value) return undefined;
+  const reverb = asRecord(value.reverb);
+  const delay = asRecord(value.delay);
+  const filter = asRecord(value.filter);
+  const pan = asRecord(value.pan);
+
+  const effects: ThemeEffects = {};
+  if (reverb) {
+    effects.reverb = { mix: toNumber(reverb.mix, 0, [0, 1]), decay: toNumber(reverb.decay, 2, REVERB_DECAY_RANGE) };
+  }
+  if (delay) {
+    effects.delay = {
+      mix: toNumber(delay.mix, 0, [0, 1]),
+      feedback: toNumber(delay.feedback, 0.3, [0, 0.9]),
+      units: toNumber(delay.units, 3, DELAY_UNITS_RANGE),
+    };
+  }
+  if (filter) {
+    effects.filter = { cutoff: toNumber(filter.cutoff, 20000, FILTER_CUTOFF_RANGE), Q: toNumber(filter.Q, 0.7, [0.1, 20]) };
+  }
+  if (pan) effects.pan = { width: toNumber(pan.width, 0, [0, 1]) };
+  return Object.keys(effects).length > 0 ? effects : undefined;
+}
+
+/**
+ * 형식을 알 수 없는 값을 PresetTheme로 만든다. 빠진 필드는 DEFAULT_THEME 값으로 채운다.
+ */
+export function sanitizePresetTheme(raw: unknown): PresetTheme {
+  const value = asRecord(raw) ?? {};
+  const mood = typeof value.mood === 'string' ? truncate(value.mood.trim(), MAX_MOOD_LENGTH) : '';
+  return {
+    mood: mood || DEFAULT_THEME.mood,
+    primaryColor: toColor(value.primaryColor, DEFAULT_THEME.primaryColor),
+    secondaryColor: toColor(value.secondaryColor, DEFAULT_THEME.secondaryColor),
+    waveform: pick(value.waveform, WAVEFORMS, DEFAULT_THEME.waveform),
+    baseFrequency: toNumber(value.baseFrequency, DEFAULT_THEME.baseFrequency, BASE_FREQUENCY_RANGE),
+    tempoMultiplier: toNumber(value.tempoMultiplier, DEFAULT_THEME.tempoMultiplier, TEMPO_RANGE),
+    scale: normalizeScale(value.scale),
+    instrument: hasVoice(value.instrument) ? value.instrument : DEFAULT_THEME.instrument ?? 'piano',
+    effects: sanitizeEffects(value.effects),
+    // 반주 스타일·음높이 매핑이 없던 예전 링크·프리셋은 그대로 (기본 아르페지오·해시)
+    accompaniment: ACCOMPANIMENT_STYLES.find(({ id }) => id === value.accompaniment)?.id,
+    pitchMapping: PITCH_MAPPINGS.find(({ id }) => id === value.pitchMapping)?.id,
+    sidetoneRiseTime:
+      value.sidetoneRiseTime == null
+        ? undefined
+        : toNumber(value.sidetoneRiseTime, DEFAULT_SIDETONE_RISE_TIME, SIDETONE_RISE_RANGE),
+  };
+}
+
+const toChannel = (raw: unknown, fallback: MixerChannel): MixerChannel => {
+  const value = asRecord(raw) ?? {};
+  return {
+    level: toNumber(value.level, fallback.level, [0, 1]),
+    mute: typeof value.mute === 'boolean' ? value.mute : fallback.mute,
+    solo: typeof value.solo === 'boolean' ? value.solo : fallback.solo,
+  };
+};
+
+/**
+ * 저장된 믹서 값을 검사한다. 빠지거나 틀린 값은 fallback에서 가져온다.
+ */
+export function sanitizeMixer(raw: unknown, fallback: MixerSettings): MixerSettings {
+  const value = asRecord(raw) ?? {};
+  return {
+    master: toNumber(value.master, fallback.master, [0, 1]),
+    melody: toChannel(value.melody, fallback.melody),
+    pad: toChannel(value.pad, fallback.pad),
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { AudioEngine } from '../services/audioEngine';
+import { DEFAULT_THEME, PlaybackEvent } from '../types';
+import { getPlayingPosition, getSourceSpans } from './timeline';
+
+const timeline = (text: string) => new AudioEngine().generateTimeline(text, DEFAULT_THEME);
+
+// 음표마다 그 음표가 울리는 동안의 재생 위치 — 같은 부분이 이어지면 하나로
+const playedParts = (events: PlaybackEvent[]) =>
+  events
+    .filter(event => event.type === 'note')
+    .map(event => getPlayingPosition(events, event.startTime + event.duration / 2)!)
+    .map(({ sourceChar, char, partIndex }) => `${sourceChar}:${char}:${partIndex}`)
+    .filter((part, i, parts) => part !== parts[i - 1]);
+
+describe('getSourceSpans', () => {
+  it('merges all jamo of a syllable into one span', () => {
+    const events = timeline('각 A');
+    const spans = getSourceSpans(events);
+    expect(spans.map(({ index, char }) => [index, char])).toEqual([[0, '각'], [1, ' '], [2, 'A']]);
+
+    const notes = events.filter(event => event.type === 'note' && event.sourceIndex === 0);
+    const last = notes[notes.length - 1];
+    expect(spans[0].startTime).toBe(0);
+    expect(spans[0].endTime).toBeCloseTo(last.startTime + last.duration);
+  });
+
+  it('keeps spans in order without overlapping', () => {
+    const spans = getSourceSpans(timeline('닭 HI 가나'));
+    spans.forEach((span, i) => {
+      expect(span.endTime).toBeGreaterThan(span.startTime);
+      if (i > 0) expect(span.startTime).toBeGreaterThanOrEqual(spans[i - 1].endTime - 1e-9);
+    });
+  });
+
+  it('gives a Wabun switch sign its own span at the same source index as the next character', () => {
+    const spans = getSourceSpans(timeline('Aア'));
+    expect(spans.map(({ index, char }) => [index, char])).toEqual([[0, 'A'], [1, '<DO>'], [1, 'ア']]);
+    expect(spans[2].startTime).toBeGreaterThan(spans[1].endTime);
+  });
+});
+
+describe('getPlayingPosition', () => {
+  it('returns null before the first note', () => {
+    expect(getPlayingPosition(timeline('A'), -0.1)).toBeNull();
+  });
+
+  it('steps through the jamo of a syllable', () => {
+    expect(playedParts(timeline('각'))).toEqual(['각:ㄱ:0', '각:ㅏ:1', '각:ㄱ:2']);
+  });
+
+  it('counts repeated jamo of a double consonant as separate parts', () => {
+    expect(playedParts(timeline('ㄲ'))).toEqual(['ㄲ:ㄱ:0', 'ㄲ:ㄱ:1']);
+  });
+
+  it('tells a Wabun switch sign apart from the character it precedes', () => {
+    expect(playedParts(timeline('Aア'))).toEqual(['A:A:0', '<DO>:<DO>:0', 'ア:ア:0']);
+  });
+
+  it('stays on the last part during the gap after it', () => {
+    const events = timeline('각');
+    const firstGap = events.find(event => event.type === 'silence')!;
+    expect(getPlayingPosition(events, firstGap.startTime + firstGap.duration / 2)).toMatchObject({ sourceChar: '각', partIndex: 0 });
+  });
+});
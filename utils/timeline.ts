@@ -0,0 +1,66 @@
+import { MorseSymbol, PlaybackEvent } from '../types';
+
+// 원문 문자 하나(한글이면 음절)가 타임라인에서 차지하는 구간
+export interface SourceSpan {
+  index: number; // 원문에서의 위치 (PlaybackEvent.sourceIndex)
+  char: string; // 단어 간격은 ' '
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * PlaybackEvent[]를 원문 문자 단위 구간으로 묶는다 (sourceIndex가 같은 음표·단어 간격).
+ * '각'은 ㄱㅏㄱ 세 자모를 합친 한 구간이 된다.
+ */
+export function getSourceSpans(events: PlaybackEvent[]): SourceSpan[] {
+  const spans: SourceSpan[] = [];
+  events.forEach(event => {
+    if (event.sourceIndex === undefined) return;
+    const last = spans[spans.length - 1];
+    const endTime = event.startTime + event.duration;
+    // 和文 전환 신호는 다음 문자와 위치가 같으므로 문자까지 비교
+    if (last && last.index === event.sourceIndex && last.char === (event.sourceChar ?? '')) {
+      last.endTime = endTime;
+    } else {
+      spans.push({ index: event.sourceIndex, char: event.sourceChar ?? '', startTime: event.startTime, endTime });
+    }
+  });
+  return spans;
+}
+
+// 재생 중인 위치: 원문 문자와 그 안의 몇 번째 부분(자모·가나 등)인지
+export interface PlayingPosition {
+  sourceIndex: number;
+  sourceChar: string;
+  char: string; // 지금 울리는 부분 (PlaybackEvent.char)
+  partIndex: number;
+}
+
+/**
+ * time(초, 타임라인 0 기준)에 재생 중이거나 마지막으로 울린 음표의 위치를 찾는다.
+ * 같은 문자 안에서는 문자 간격(SPACE)을 지날 때마다 다음 부분으로 넘어간다 (ㄲ → ㄱ ㄱ처럼 같은 부분이 이어져도 구분).
+ */
+export function getPlayingPosition(events: PlaybackEvent[], time: number): PlayingPosition | null {
+  let position: PlayingPosition | null = null;
+  let passedGap = false;
+
+  for (const event of events) {
+    if (event.startTime > time) break;
+    if (event.type === 'note') {
+      if (event.sourceIndex === undefined) continue;
+      const sourceChar = event.sourceChar ?? '';
+      const sameChar = position && position.sourceIndex === event.sourceIndex && position.sourceChar === sourceChar;
+      position = {
+        sourceIndex: event.sourceIndex,
+        sourceChar,
+        char: event.char ?? '',
+        partIndex: sameChar && position ? position.partIndex + (passedGap ? 1 : 0) : 0,
+      };
+      passedGap = false;
+    } else if (event.symbol === MorseSymbol.SPACE) {
+      passedGap = true;
+    }
+  }
+
+  return position;
+}
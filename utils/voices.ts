@@ -0,0 +1,202 @@
+import { InstrumentType, ThemeConfig } from '../types';
+
+// 악기(음색) 레지스트리 — 음색은 데이터로 정의하고, 소리는 services/voiceSynth.ts가 이 정의대로 만든다
+// 새 음색은 registerVoice로 추가 (엔진 수정 없음)
+
+/**
+ * 오실레이터 한 겹. 주파수는 음 높이 × ratio.
+ * fm이 있으면 모듈레이터(음 높이 × fm.ratio)로 주파수를 흔든다 — 깊이는 index × 모듈레이터 주파수,
+ * decay초 동안 index가 0으로 줄어 종소리처럼 배음이 사라진다.
+ */
+export interface OscillatorLayer {
+  kind: 'oscillator';
+  waveform: OscillatorType | 'theme'; // 'theme' = ThemeConfig.waveform
+  ratio: number;
+  gain: number;
+  detune?: number; // cents
+  fm?: { ratio: number; index: number; decay: number };
+}
+
+/**
+ * Karplus-Strong 현 뜯는 소리: 잡음 한 주기를 지연선에 넣고 두 샘플 평균을 되먹인다.
+ * damping(0~1)이 클수록 고음이 빨리 사라지고, decay초 뒤 -60dB로 줄어든다.
+ */
+export interface PluckLayer {
+  kind: 'pluck';
+  ratio: number;
+  gain: number;
+  damping: number;
+  decay: number;
+}
+
+export type VoiceLayer = OscillatorLayer | PluckLayer;
+
+export interface VoiceFilter {
+  type: BiquadFilterType;
+  frequency: number; // Hz (keyTrack가 있으면 음 높이의 배수)
+  Q: number;
+  keyTrack?: boolean;
+}
+
+/**
+ * 음량 엔벨로프. 음 길이 안에서 끝난다 (release도 음 끝에서 0이 되도록 앞당김).
+ * 0 → attack초에 peak → decay초에 sustain → (음 끝 - release)부터 0까지.
+ * hold면 decay 없이 peak을 release 직전까지 유지하고, release는 sustain 높이에서 시작한다.
+ * *Ratio는 짧은 점에서도 각 단계가 음 길이의 그 비율을 넘지 않게 하는 상한.
+ */
+export interface VoiceEnvelope {
+  attack: number;
+  peak: number;
+  decay: number;
+  decayRatio?: number;
+  sustain: number;
+  release: number;
+  releaseRatio?: number;
+  hold?: boolean;
+  curve?: 'linear' | 'cosine'; // cosine = 올림 코사인 램프 (CW 송신기의 키 클릭 방지 파형)
+}
+
+export interface VoiceDefinition {
+  label: string;
+  layers: VoiceLayer[];
+  filter?: VoiceFilter;
+  envelope: VoiceEnvelope;
+  monotone?: boolean; // 멜로디 대신 항상 테마의 기준 주파수 (사이드톤)
+  midiProgram: number; // General MIDI 프로그램 번호 (0-based, MIDI 내보내기)
+}
+
+export const DEFAULT_SIDETONE_RISE_TIME = 0.005; // s
+export const SIDETONE_RISE_RANGE: [number, number] = [0.001, 0.02];
+
+/**
+ * 클래식 CW 사이드톤: 기준 주파수의 사인파 하나, rise/fall을 올림 코사인으로 riseTime초 동안.
+ * riseTime이 짧을수록 또렷하지만 클릭이 들린다 (보통 4~8ms).
+ */
+export function createSidetoneVoice(riseTime: number = DEFAULT_SIDETONE_RISE_TIME): VoiceDefinition {
+  return {
+    label: 'CW Sidetone',
+    layers: [{ kind: 'oscillator', waveform: 'sine', ratio: 1, gain: 1 }],
+    envelope: { attack: riseTime, peak: 0.6, decay: 0, sustain: 0.6, release: riseTime, curve: 'cosine' },
+    monotone: true,
+    midiProgram: 80, // Lead 1 (square)
+  };
+}
+
+const voices = new Map<InstrumentType, VoiceDefinition>([
+  [
+    'sine',
+    {
+      label: 'Synth',
+      layers: [{ kind: 'oscillator', waveform: 'theme', ratio: 1, gain: 1 }],
+      envelope: { attack: 0.02, peak: 0.7, decay: 0, sustain: 0.7, release: 0.1 },
+      midiProgram: 73, // Flute
+    },
+  ],
+  [
+    'piano',
+    {
+      label: 'Piano',
+      layers: [
+        { kind: 'oscillator', waveform: 'triangle', ratio: 1, gain: 1 },
+        { kind: 'oscillator', waveform: 'triangle', ratio: 2, gain: 0.25 },
+      ],
+      // decay 뒤 음 끝까지 계속 줄어듦 (release가 음 전체를 덮음)
+      envelope: { attack: 0.008, peak: 0.6, decay: 0.15, decayRatio: 0.4, sustain: 0.2, release: 1, releaseRatio: 1 },
+      midiProgram: 0, // Acoustic Grand Piano
+    },
+  ],
+  [
+    'marimba',
+    {
+      label: 'Marimba',
+      layers: [{ kind: 'oscillator', waveform: 'sine', ratio: 1, gain: 1 }],
+      envelope: { attack: 0.03, peak: 0.65, decay: 0, sustain: 0.5, release: 0.25, releaseRatio: 1.2, hold: true },
+      midiProgram: 12, // Marimba
+    },
+  ],
+  [
+    'violin',
+    {
+      label: 'Violin',
+      layers: [{ kind: 'oscillator', waveform: 'sawtooth', ratio: 1, gain: 1 }],
+      filter: { type: 'lowpass', frequency: 2000, Q: 0.5 },
+      envelope: { attack: 0.05, peak: 0.4, decay: 0, sustain: 0.35, release: 0.08, hold: true },
+      midiProgram: 40, // Violin
+    },
+  ],
+  [
+    'chime',
+    {
+      label: 'Chime',
+      layers: [
+        { kind: 'oscillator', waveform: 'sine', ratio: 1, gain: 1 },
+        { kind: 'oscillator', waveform: 'sine', ratio: 2.5, gain: 0.12 },
+      ],
+      envelope: { attack: 0.012, peak: 0.55, decay: 0, sustain: 0.5, release: 0.2, releaseRatio: 0.5, hold: true },
+      midiProgram: 14, // Tubular Bells
+    },
+  ],
+  [
+    'fm-bell',
+    {
+      label: 'FM Bell',
+      layers: [
+        { kind: 'oscillator', waveform: 'sine', ratio: 1, gain: 1, fm: { ratio: 3.5, index: 2.5, decay: 0.6 } },
+        { kind: 'oscillator', waveform: 'sine', ratio: 2.76, gain: 0.15 },
+      ],
+      envelope: { attack: 0.004, peak: 0.55, decay: 0.3, decayRatio: 0.6, sustain: 0.2, release: 0.15, releaseRatio: 0.5 },
+      midiProgram: 9, // Glockenspiel
+    },
+  ],
+  [
+    'pluck',
+    {
+      label: 'Plucked String',
+      layers: [{ kind: 'pluck', ratio: 1, gain: 1, damping: 0.5, decay: 1.5 }],
+      envelope: { attack: 0.002, peak: 0.8, decay: 0, sustain: 0.8, release: 0.05, releaseRatio: 0.3 },
+      midiProgram: 24, // Acoustic Guitar (nylon)
+    },
+  ],
+  [
+    'organ',
+    {
+      label: 'Organ',
+      // 드로바 16' 8' 4' 2 2/3' 2'
+      layers: [
+        { kind: 'oscillator', waveform: 'sine', ratio: 0.5, gain: 0.3 },
+        { kind: 'oscillator', waveform: 'sine', ratio: 1, gain: 1 },
+        { kind: 'oscillator', waveform: 'sine', ratio: 2, gain: 0.5 },
+        { kind: 'oscillator', waveform: 'sine', ratio: 3, gain: 0.25 },
+        { kind: 'oscillator', waveform: 'sine', ratio: 4, gain: 0.2 },
+      ],
+      envelope: { attack: 0.01, peak: 0.3, decay: 0, sustain: 0.3, release: 0.03 },
+      midiProgram: 16, // Drawbar Organ
+    },
+  ],
+  ['sidetone', createSidetoneVoice()],
+]);
+
+export function registerVoice(id: InstrumentType, voice: VoiceDefinition) {
+  voices.set(id, voice);
+}
+
+// 모르는 id는 기본 음색 (저장된 프리셋이 지금은 없는 음색을 가리켜도 소리는 남)
+export function getVoice(id: InstrumentType | undefined): VoiceDefinition {
+  return voices.get(id ?? 'sine') ?? voices.get('sine')!;
+}
+
+/**
+ * 테마 설정을 반영한 음색 — 사이드톤은 테마의 sidetoneRiseTime으로 다시 만든다.
+ */
+export function getThemeVoice(id: InstrumentType | undefined, theme: ThemeConfig): VoiceDefinition {
+  if (id === 'sidetone' && theme.sidetoneRiseTime !== undefined) return createSidetoneVoice(theme.sidetoneRiseTime);
+  return getVoice(id);
+}
+
+export function hasVoice(id: unknown): id is InstrumentType {
+  return typeof id === 'string' && voices.has(id);
+}
+
+export function listVoices(): { id: InstrumentType; label: string }[] {
+  return Array.from(voices, ([id, voice]) => ({ id, label: voice.label }));
+}
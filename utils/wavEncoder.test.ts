@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav } from './wavEncoder';
+
+const readString = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+// 헤더 뒤의 16-bit 샘플을 인터리브된 순서 그대로
+const samples = (buffer: ArrayBuffer) => Array.from(new Int16Array(buffer.slice(44)));
+
+describe('encodeWav', () => {
+  it('writes RIFF, fmt and data headers for 16-bit PCM', () => {
+    const buffer = encodeWav([new Float32Array(10), new Float32Array(10)], 44100);
+    const view = new DataView(buffer);
+
+    expect(buffer.byteLength).toBe(44 + 10 * 2 * 2);
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 40);
+    expect(readString(view, 8, 4)).toBe('WAVE');
+    expect(readString(view, 12, 4)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(2); // channels
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4); // byte rate
+    expect(view.getUint16(32, true)).toBe(4); // block align
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(readString(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(40);
+  });
+
+  it('interleaves two channels frame by frame', () => {
+    const left = new Float32Array([0.5, -0.5, 0]);
+    const right = new Float32Array([-0.25, 0.25, 1]);
+    expect(samples(encodeWav([left, right], 8000))).toEqual([
+      Math.trunc(0.5 * 0x7fff), Math.trunc(-0.25 * 0x8000),
+      Math.trunc(-0.5 * 0x8000), Math.trunc(0.25 * 0x7fff),
+      0, 0x7fff,
+    ]);
+  });
+
+  it('clips samples outside ±1', () => {
+    expect(samples(encodeWav([new Float32Array([1.5, -3, 1, -1])], 8000))).toEqual([0x7fff, -0x8000, 0x7fff, -0x8000]);
+  });
+
+  it('trims to the shortest channel', () => {
+    const buffer = encodeWav([new Float32Array(5), new Float32Array(3)], 8000);
+    expect(new DataView(buffer).getUint32(40, true)).toBe(3 * 2 * 2);
+    expect(buffer.byteLength).toBe(44 + 12);
+  });
+
+  it('requires at least one channel', () => {
+    expect(() => encodeWav([], 8000)).toThrow('at least one channel');
+  });
+});
@@ -0,0 +1,64 @@
+// 16-bit PCM WAV 인코더 — 브라우저 API 없이 채널 데이터만으로 동작 (테스트 가능)
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+/**
+ * 채널별 Float32 샘플(-1~1)을 인터리브된 16-bit PCM WAV 파일로 인코딩한다.
+ * 범위를 벗어난 샘플은 클리핑하고, 채널 길이가 다르면 가장 짧은 채널에 맞춘다.
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  if (channels.length === 0) {
+    throw new Error('encodeWav: at least one channel is required');
+  }
+
+  const numChannels = channels.length;
+  const numFrames = Math.min(...channels.map(ch => ch.length));
+  const bytesPerSample = 2;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = numFrames * blockAlign;
+
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  // RIFF header
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+
+  // data chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let frame = 0; frame < numFrames; frame++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const sample = Math.max(-1, Math.min(1, channels[ch][frame]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return buffer;
+}
+
+export function audioBufferToWav(audioBuffer: AudioBuffer): ArrayBuffer {
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < audioBuffer.numberOfChannels; ch++) {
+    channels.push(audioBuffer.getChannelData(ch));
+  }
+  return encodeWav(channels, audioBuffer.sampleRate);
+}